@@ -4,6 +4,19 @@ import replace from '@rollup/plugin-replace';
 
 const external = [];
 
+// Subpath entries and the peer dependencies they leave external
+const bindings = { react: ['react'], vue: ['vue'], elements: [] };
+
+// Bindings import the SDK as '../index'; emit that as the package
+// import so apps share one copy of the SDK instead of bundling a second one
+const sdkAsExternal = {
+  name: 'sdk-as-external',
+  resolveId: (source, importer) =>
+    source === '../index' && importer && /[\\/]src[\\/](react|vue|elements)[\\/]/.test(importer)
+      ? { id: '@0xio/sdk', external: true }
+      : null
+};
+
 const plugins = [
   replace({
     'process.env.NODE_ENV': JSON.stringify('production'),
@@ -55,6 +68,31 @@ export default [
     plugins
   },
   
+  // 0xio-codegen CLI (Node only)
+  {
+    input: 'src/codegen/cli.ts',
+    output: {
+      file: 'dist/codegen.js',
+      format: 'esm',
+      banner: '#!/usr/bin/env node',
+      sourcemap: true
+    },
+    external: ['node:fs', 'node:path'],
+    plugins
+  },
+
+  // Bindings (@0xio/sdk/react, @0xio/sdk/vue, @0xio/sdk/elements) — import the SDK by package name so apps share one copy
+  ...Object.keys(bindings).flatMap((framework) => ['esm', 'cjs'].map((format) => ({
+    input: `src/${framework}/index.ts`,
+    output: {
+      file: format === 'esm' ? `dist/${framework}.esm.js` : `dist/${framework}.js`,
+      format,
+      sourcemap: true
+    },
+    external: bindings[framework],
+    plugins: [sdkAsExternal, ...plugins]
+  }))),
+
   // Type definitions
   {
     input: 'src/index.ts',
@@ -62,5 +100,13 @@ export default [
       file: 'dist/index.d.ts'
     },
     plugins: [dts()]
-  }
+  },
+  ...Object.keys(bindings).map((framework) => ({
+    input: `src/${framework}/index.ts`,
+    output: {
+      file: `dist/${framework}.d.ts`
+    },
+    external: bindings[framework],
+    plugins: [sdkAsExternal, dts()]
+  }))
 ];
\ No newline at end of file
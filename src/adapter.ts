@@ -102,6 +102,32 @@ export interface WalletTransportAdapter {
    */
   readonly displayName: string;
 
+  /**
+   * Optional: wallet icon (URL or data: URI) shown by wallet pickers.
+   */
+  readonly icon?: string;
+
+  /**
+   * Optional: where users can install the wallet. Wallet pickers link here when
+   * detect() returns false.
+   */
+  readonly installUrl?: string;
+
+  /**
+   * Optional: reverse-DNS wallet identifier, matching the `rdns` the wallet
+   * announces through octra:announceProvider. Lets pickers merge a registered
+   * adapter with the same wallet's announcement.
+   */
+  readonly rdns?: string;
+
+  /**
+   * Optional: set to true when the adapter does not depend on a browser page
+   * (no window, postMessage or extension). The SDK then skips page-context checks,
+   * the iframe parent bridge and wallet-ready polling, so the adapter also works in
+   * Node scripts, CI jobs and backends.
+   */
+  readonly headless?: boolean;
+
   /**
    * Returns true when this wallet's extension / injected provider is present
    * in the current page context. Called periodically by the SDK to check availability.
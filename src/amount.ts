@@ -0,0 +1,211 @@
+/**
+ * 0xio SDK — Exact OCT amounts
+ *
+ * OctAmount is an immutable value backed by integer micro-OCT (bigint), so
+ * parsing, arithmetic and formatting never go through floating point.
+ * 1 OCT = 1,000,000 micro-OCT.
+ */
+
+import { ErrorCode, ZeroXIOWalletError } from './types';
+
+/** Anything the SDK accepts where an OCT amount is expected */
+export type OctAmountInput = OctAmount | string | number;
+
+export interface OctAmountFormatOptions {
+  /** Maximum fractional digits, rounded half-up (default 6) */
+  readonly decimals?: number;
+  /** Insert ',' thousands separators in the integer part (default true) */
+  readonly grouping?: boolean;
+}
+
+const DECIMALS = 6;
+const MICRO_PER_OCT = BigInt(1_000_000);
+const ZERO = BigInt(0);
+
+function invalid(message: string): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_AMOUNT, message);
+}
+
+function parseDecimal(input: string, original: unknown): bigint {
+  const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(input.trim());
+  if (!match) {
+    throw invalid(`Invalid OCT amount: ${String(original)}`);
+  }
+  const [, sign, whole, frac = ''] = match;
+  if (frac.length > DECIMALS && /[1-9]/.test(frac.slice(DECIMALS))) {
+    throw invalid(`OCT amount ${String(original)} has more than ${DECIMALS} decimal places`);
+  }
+  const micro = BigInt(whole) * MICRO_PER_OCT + BigInt(frac.slice(0, DECIMALS).padEnd(DECIMALS, '0'));
+  return sign ? -micro : micro;
+}
+
+export class OctAmount {
+  static readonly DECIMALS = DECIMALS;
+  static readonly ZERO = new OctAmount(ZERO);
+
+  /** Integer micro-OCT */
+  readonly micro: bigint;
+
+  private constructor(micro: bigint) {
+    this.micro = micro;
+    Object.freeze(this);
+  }
+
+  /**
+   * Parse an OCT amount. Strings must be plain decimals (`"12.5"`, `"-0.000001"`);
+   * numbers must be exactly representable in micro-OCT — `0.1 + 0.2` is accepted
+   * as 0.3, `0.1234567` is rejected. Throws INVALID_AMOUNT.
+   */
+  static from(value: OctAmountInput): OctAmount {
+    if (value instanceof OctAmount) return value;
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw invalid(`Invalid OCT amount: ${value}`);
+      }
+      const fixed = value.toFixed(DECIMALS);
+      if (Math.abs(Number(fixed) - value) > 1e-10) {
+        throw invalid(
+          `Amount ${value} cannot be represented exactly in micro-OCT. ` +
+          `Pass a string instead (e.g. "${fixed}").`
+        );
+      }
+      return new OctAmount(parseDecimal(fixed, value));
+    }
+
+    if (typeof value === 'string') {
+      return new OctAmount(parseDecimal(value, value));
+    }
+
+    throw invalid(`Invalid OCT amount: ${String(value)}`);
+  }
+
+  /**
+   * Build an amount from integer micro-OCT (bigint, integer string or safe integer).
+   */
+  static fromMicro(micro: bigint | string | number): OctAmount {
+    if (typeof micro === 'bigint') return new OctAmount(micro);
+    if (typeof micro === 'number') {
+      if (!Number.isSafeInteger(micro)) {
+        throw invalid(`Invalid micro-OCT amount: ${micro}`);
+      }
+      return new OctAmount(BigInt(micro));
+    }
+    if (typeof micro === 'string' && /^-?\d+$/.test(micro.trim())) {
+      return new OctAmount(BigInt(micro.trim()));
+    }
+    throw invalid(`Invalid micro-OCT amount: ${String(micro)}`);
+  }
+
+  static isOctAmount(value: unknown): value is OctAmount {
+    return value instanceof OctAmount;
+  }
+
+  add(other: OctAmountInput): OctAmount {
+    return new OctAmount(this.micro + OctAmount.from(other).micro);
+  }
+
+  sub(other: OctAmountInput): OctAmount {
+    return new OctAmount(this.micro - OctAmount.from(other).micro);
+  }
+
+  /** Multiply by an integer factor (e.g. per-recipient amount × recipients) */
+  mul(factor: bigint | number): OctAmount {
+    if (typeof factor === 'number' && !Number.isSafeInteger(factor)) {
+      throw invalid(`Multiplier must be an integer: ${factor}`);
+    }
+    return new OctAmount(this.micro * BigInt(factor));
+  }
+
+  /** -1, 0 or 1 */
+  cmp(other: OctAmountInput): -1 | 0 | 1 {
+    const o = OctAmount.from(other).micro;
+    return this.micro < o ? -1 : this.micro > o ? 1 : 0;
+  }
+
+  eq(other: OctAmountInput): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: OctAmountInput): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: OctAmountInput): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: OctAmountInput): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: OctAmountInput): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.micro === ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.micro > ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.micro < ZERO;
+  }
+
+  /** Canonical decimal string in OCT, no trailing zeros (`"1.5"`, `"100"`) */
+  toString(): string {
+    const negative = this.micro < ZERO;
+    const abs = negative ? -this.micro : this.micro;
+    const whole = (abs / MICRO_PER_OCT).toString();
+    const frac = (abs % MICRO_PER_OCT).toString().padStart(DECIMALS, '0').replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${frac ? '.' + frac : ''}`;
+  }
+
+  /** Integer micro-OCT as a decimal string (JSON-RPC wire unit) */
+  toMicroString(): string {
+    return this.micro.toString();
+  }
+
+  /**
+   * Human-readable form, e.g. `"1,234,567.89"`. Rounds half-up to `decimals`
+   * and drops trailing zeros.
+   */
+  format(options: OctAmountFormatOptions = {}): string {
+    const decimals = Math.min(DECIMALS, Math.max(0, Math.floor(options.decimals ?? DECIMALS)));
+    const grouping = options.grouping ?? true;
+
+    const negative = this.micro < ZERO;
+    let abs = negative ? -this.micro : this.micro;
+    const step = BigInt(10) ** BigInt(DECIMALS - decimals);
+    if (step > BigInt(1)) {
+      abs = ((abs + step / BigInt(2)) / step) * step;
+    }
+
+    let whole = (abs / MICRO_PER_OCT).toString();
+    const frac = (abs % MICRO_PER_OCT)
+      .toString()
+      .padStart(DECIMALS, '0')
+      .slice(0, decimals)
+      .replace(/0+$/, '');
+    if (grouping) {
+      whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    }
+    const sign = negative && abs !== ZERO ? '-' : '';
+    return `${sign}${whole}${frac ? '.' + frac : ''}`;
+  }
+
+  /**
+   * Convert to a JS number. Lossy above ~9 billion OCT — for display only.
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** Serialises as the canonical OCT decimal string */
+  toJSON(): string {
+    return this.toString();
+  }
+}
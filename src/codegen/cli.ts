@@ -0,0 +1,114 @@
+/**
+ * 0xio-codegen — generate typed contract wrappers.
+ *
+ *   0xio-codegen <interface.json | interface.aml>... [options]
+ *
+ *   -o, --out <dir>        Output directory (default: current directory)
+ *   -n, --name <Class>     Class name (single input only)
+ *   -a, --address <oct..>  Default contract address (single input only)
+ *   --import <module>      Module to import the SDK from (default '@0xio/sdk')
+ *   -h, --help             Show usage
+ *
+ * Each input `foo.json` / `foo.aml` produces `<out>/foo.ts`.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { generateContractBindings, parseContractInterface } from './index';
+
+const USAGE = `Usage: 0xio-codegen <interface.json | interface.aml>... [options]
+
+Options:
+  -o, --out <dir>        Output directory (default: current directory)
+  -n, --name <Class>     Class name (single input only)
+  -a, --address <oct..>  Default contract address (single input only)
+      --import <module>  Module to import the SDK from (default '@0xio/sdk')
+  -h, --help             Show this message
+`;
+
+interface CliArgs {
+  inputs: string[];
+  out: string;
+  name?: string;
+  address?: string;
+  importFrom?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs | null {
+  const args: CliArgs = { inputs: [], out: '.' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null;
+      case '-o':
+      case '--out':
+        args.out = value();
+        break;
+      case '-n':
+      case '--name':
+        args.name = value();
+        break;
+      case '-a':
+      case '--address':
+        args.address = value();
+        break;
+      case '--import':
+        args.importFrom = value();
+        break;
+      default:
+        if (arg.startsWith('-')) throw new Error(`Unknown option ${arg}`);
+        args.inputs.push(arg);
+    }
+  }
+  if (args.inputs.length === 0) return null;
+  if (args.inputs.length > 1 && (args.name || args.address)) {
+    throw new Error('--name and --address can only be used with a single input');
+  }
+  return args;
+}
+
+function main(argv: string[]): number {
+  let args: CliArgs | null;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    process.stdout.write(USAGE);
+    return argv.length === 0 ? 2 : 0;
+  }
+
+  const outDir = resolve(args.out);
+  mkdirSync(outDir, { recursive: true });
+
+  for (const input of args.inputs) {
+    try {
+      const descriptor = parseContractInterface(readFileSync(input, 'utf8'));
+      const stem = basename(input, extname(input));
+      const source = generateContractBindings(descriptor, {
+        className: args.name,
+        address: args.address,
+        importFrom: args.importFrom,
+        sourceName: basename(input),
+      });
+      const target = join(outDir, `${stem}.ts`);
+      writeFileSync(target, source);
+      process.stdout.write(`${input} → ${target}\n`);
+    } catch (error) {
+      process.stderr.write(`${input}: ${(error as Error).message}\n`);
+      return 1;
+    }
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
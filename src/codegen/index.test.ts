@@ -0,0 +1,40 @@
+import { generateContractBindings, parseAmlSignatures } from './index';
+import { ContractDescriptor } from '../contract';
+import { ErrorCode } from '../types';
+
+describe('generateContractBindings', () => {
+  it('renames the overrides argument when a parameter already uses the name', () => {
+    const source = generateContractBindings({
+      name: 'Token',
+      methods: [{ name: 'transfer', params: [{ name: 'to', type: 'address' }, { name: 'overrides', type: 'int' }] }],
+    });
+
+    expect(source).toContain(
+      'transfer(to: string, overrides: number | bigint, overrides_?: ContractCallOverrides): Promise<TransactionResult> {'
+    );
+    expect(source).toContain('return this.binding.transfer(to, overrides, overrides_);');
+  });
+
+  it('rejects parameter names that are not identifiers', () => {
+    const descriptor: ContractDescriptor = {
+      methods: [{ name: 'get', kind: 'view', params: [{ name: 'min-out', type: 'int' }] }],
+    };
+
+    expect(() => generateContractBindings(descriptor)).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAMS })
+    );
+  });
+
+  it('rejects duplicate parameter names', () => {
+    expect(() => parseAmlSignatures('call swap(amount: int, amount: int)')).toThrow(/duplicate parameter "amount"/);
+    expect(() => generateContractBindings({
+      methods: [{ name: 'swap', params: [{ name: 'amount', type: 'int' }, { name: 'amount', type: 'int' }] }],
+    })).toThrow(/duplicate parameter "amount"/);
+  });
+
+  it('rejects parameters that collide after reserved-word renaming', () => {
+    expect(() => generateContractBindings({
+      methods: [{ name: 'f', params: [{ name: 'class', type: 'int' }, { name: 'class_', type: 'int' }] }],
+    })).toThrow(/same identifier/);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * 0xio SDK — Contract binding code generator
+ *
+ * Turns a contract interface into a `.ts` file with a typed wrapper class around
+ * ZeroXIOWallet.callContract / contractCallView. The generated class delegates to
+ * defineContract(), so argument validation and result decoding stay in the SDK.
+ *
+ * Two input formats are accepted:
+ *
+ * 1. JSON — a ContractDescriptor (`{ name?, doc?, address?, methods: [...] }`,
+ *    methods and params may carry a `doc` string).
+ *
+ * 2. AML signatures — one method per line:
+ *
+ * ```
+ * /// Bin-based DEX
+ * contract Dex oct26LiaGUz78Jnby2TWEHcmboKHyupnu1NX1G3Evz28YHm
+ *
+ * /// Swap through the active bin
+ * /// @param amount_in Amount of the input token
+ * call swap(amount_in: int, x_for_y: bool, min_out: int) ou=20000
+ *
+ * view get_active_bin() -> int
+ * ```
+ *
+ * `///` lines document the declaration that follows (`@param name text` documents
+ * a parameter); `#` and `//` lines are comments. `contract <Name> [address]` is optional.
+ */
+
+import {
+  ContractDescriptor,
+  ContractMethodDescriptor,
+  ContractParamDescriptor,
+  ContractReturnType,
+  assertContractDescriptor
+} from '../contract';
+import { ErrorCode, ZeroXIOWalletError } from '../types';
+
+export interface GenerateOptions {
+  /** Generated class name (default: descriptor name + 'Contract') */
+  readonly className?: string;
+  /** Module the generated file imports the SDK from (default '@0xio/sdk') */
+  readonly importFrom?: string;
+  /** Default contract address baked into the class; overrides descriptor.address */
+  readonly address?: string;
+  /** Shown in the header comment */
+  readonly sourceName?: string;
+}
+
+const METHOD_RE = /^(view|call)\s+([A-Za-z_]\w*)\s*\(([^)]*)\)\s*(?:->\s*(\w+))?\s*(?:ou\s*=\s*(\d+|auto))?\s*;?$/;
+const CONTRACT_RE = /^contract\s+([A-Za-z_]\w*)(?:\s+(oct[A-Za-z0-9]+))?\s*;?$/;
+const PARAM_RE = /^([A-Za-z_]\w*)\s*:\s*(\w+)$/;
+
+const TS_RESERVED = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+  'import', 'in', 'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'let', 'static', 'yield', 'await',
+  'implements', 'interface', 'package', 'private', 'protected', 'public', 'arguments', 'eval',
+]);
+// members of the generated class that contract methods must not shadow
+const CLASS_MEMBERS = new Set(['constructor', 'address', 'binding', 'DEFAULT_ADDRESS', 'descriptor']);
+
+function codegenError(message: string, details?: unknown): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, message, details);
+}
+
+/**
+ * Parse the AML signature format described in the module header.
+ */
+export function parseAmlSignatures(source: string): ContractDescriptor {
+  const methods: ContractMethodDescriptor[] = [];
+  let name: string | undefined;
+  let address: string | undefined;
+  let contractDoc: string | undefined;
+  let doc: string[] = [];
+  let paramDocs: Record<string, string> = {};
+
+  const takeDoc = (): string | undefined => {
+    const text = doc.join('\n').trim();
+    doc = [];
+    return text || undefined;
+  };
+
+  source.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const lineNo = i + 1;
+
+    if (line.startsWith('///')) {
+      const text = line.slice(3).trim();
+      const param = /^@param\s+(\w+)\s*(.*)$/.exec(text);
+      if (param) paramDocs[param[1]] = param[2];
+      else doc.push(text);
+      return;
+    }
+    if (!line || line.startsWith('#') || line.startsWith('//')) return;
+
+    const contract = CONTRACT_RE.exec(line);
+    if (contract) {
+      name = contract[1];
+      address = contract[2];
+      contractDoc = takeDoc();
+      paramDocs = {};
+      return;
+    }
+
+    const method = METHOD_RE.exec(line);
+    if (!method) {
+      throw codegenError(`Line ${lineNo}: cannot parse "${line}"`, { line: lineNo });
+    }
+    const [, kind, methodName, paramList, returns, ou] = method;
+
+    const params: ContractParamDescriptor[] = paramList.trim()
+      ? paramList.split(',').map((p) => {
+        const match = PARAM_RE.exec(p.trim());
+        if (!match) {
+          throw codegenError(`Line ${lineNo}: invalid parameter "${p.trim()}" (expected name: type)`, { line: lineNo });
+        }
+        const [, paramName, type] = match;
+        return {
+          name: paramName,
+          type: type as ContractParamDescriptor['type'],
+          ...(paramDocs[paramName] ? { doc: paramDocs[paramName] } : {}),
+        };
+      })
+      : [];
+
+    const methodDoc = takeDoc();
+    paramDocs = {};
+    methods.push({
+      name: methodName,
+      kind: kind as 'view' | 'call',
+      params,
+      ...(returns ? { returns: returns as ContractReturnType } : {}),
+      ...(ou ? { ou: ou === 'auto' ? 'auto' : Number(ou) } : {}),
+      ...(methodDoc ? { doc: methodDoc } : {}),
+    });
+  });
+
+  const descriptor: ContractDescriptor = {
+    ...(name ? { name } : {}),
+    ...(contractDoc ? { doc: contractDoc } : {}),
+    ...(address ? { address } : {}),
+    methods,
+  };
+  assertContractDescriptor(descriptor);
+  return descriptor;
+}
+
+/**
+ * Parse interface source: JSON when it starts with '{', AML signatures otherwise.
+ */
+export function parseContractInterface(source: string): ContractDescriptor {
+  const text = source.trim();
+  if (!text.startsWith('{')) {
+    return parseAmlSignatures(text);
+  }
+
+  let descriptor: ContractDescriptor;
+  try {
+    descriptor = JSON.parse(text);
+  } catch (error) {
+    throw codegenError(`Invalid interface JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  assertContractDescriptor(descriptor);
+  return descriptor;
+}
+
+function tsParamType(type: string): string {
+  switch (type) {
+    case 'int':
+    case 'bigint': return 'number | bigint';
+    case 'bool': return 'boolean';
+    case 'bytes': return 'Uint8Array | ArrayBuffer | string';
+    default: return 'string';
+  }
+}
+
+function tsReturnType(type: string | undefined): string {
+  switch (type) {
+    case 'int': return 'number';
+    case 'bigint': return 'bigint';
+    case 'bool': return 'boolean';
+    case 'string': return 'string';
+    case 'address': return 'Address';
+    case 'bytes': return 'Uint8Array';
+    case 'void': return 'null';
+    case 'json': return 'unknown';
+    default: return 'any';
+  }
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function safeIdentifier(name: string): string {
+  return TS_RESERVED.has(name) ? `${name}_` : name;
+}
+
+function jsDoc(lines: string[], indent: string): string[] {
+  const body = lines.flatMap((l) => l.split('\n')).map((l) => l.replace(/\*\//g, '*\\/'));
+  if (body.length === 0) return [];
+  return [`${indent}/**`, ...body.map((l) => `${indent} *${l ? ' ' + l : ''}`), `${indent} */`];
+}
+
+/**
+ * Generate a TypeScript module with a typed wrapper class for one contract.
+ */
+export function generateContractBindings(descriptor: ContractDescriptor, options: GenerateOptions = {}): string {
+  assertContractDescriptor(descriptor);
+
+  const baseName = descriptor.name ?? options.sourceName?.replace(/\.[^.]*$/, '') ?? 'Generated';
+  const className = options.className ?? `${pascalCase(baseName)}Contract`;
+  if (!/^[A-Za-z_$][\w$]*$/.test(className)) {
+    throw codegenError(`Invalid class name "${className}"`);
+  }
+  const importFrom = options.importFrom ?? '@0xio/sdk';
+  const address = options.address ?? descriptor.address;
+
+  for (const method of descriptor.methods) {
+    if (!/^[A-Za-z_$][\w$]*$/.test(method.name) || CLASS_MEMBERS.has(method.name)) {
+      throw codegenError(`Method name "${method.name}" cannot be used as a class member`);
+    }
+  }
+
+  // runtime descriptor without docs — JSDoc carries those
+  const runtimeDescriptor = {
+    ...(descriptor.name ? { name: descriptor.name } : {}),
+    methods: descriptor.methods.map((m) => ({
+      name: m.name,
+      kind: m.kind ?? 'call',
+      params: (m.params ?? []).map((p) => ({ name: p.name, type: p.type })),
+      ...(m.returns ? { returns: m.returns } : {}),
+      ...(m.ou != null ? { ou: m.ou } : {}),
+    })),
+  };
+
+  const usesAddress = descriptor.methods.some((m) => m.kind === 'view' && m.returns === 'address');
+
+  const out: string[] = [];
+  out.push(
+    `// Generated by 0xio-codegen${options.sourceName ? ` from ${options.sourceName}` : ''} — do not edit by hand.`,
+    '',
+    'import { defineContract } from \'' + importFrom + '\';',
+    'import type {',
+    ...(usesAddress ? ['  Address,'] : []),
+    '  ContractBinding,',
+    '  ContractCallOverrides,',
+    '  ContractRunner,',
+    '  ContractViewOverrides,',
+    '  TransactionResult',
+    '} from \'' + importFrom + '\';',
+    '',
+    `const descriptor = ${JSON.stringify(runtimeDescriptor, null, 2)} as const;`,
+    '',
+  );
+
+  out.push(...jsDoc(descriptor.doc ? [descriptor.doc] : [], ''));
+  out.push(`export class ${className} {`);
+  if (address) {
+    out.push(`  static readonly DEFAULT_ADDRESS = ${JSON.stringify(address)};`, '');
+  }
+  out.push(
+    '  readonly address: string;',
+    '  private readonly binding: ContractBinding<typeof descriptor>;',
+    '',
+    `  constructor(wallet: ContractRunner, address: string${address ? ` = ${className}.DEFAULT_ADDRESS` : ''}) {`,
+    '    this.address = address;',
+    '    this.binding = defineContract(descriptor, { wallet, address });',
+    '  }',
+  );
+
+  for (const method of descriptor.methods) {
+    const params = method.params ?? [];
+    const isView = method.kind === 'view';
+    const names = params.map((p) => safeIdentifier(p.name));
+    if (new Set(names).size !== names.length) {
+      throw codegenError(`Method "${method.name}" has parameters that map to the same identifier`, { params: names });
+    }
+    const args = params.map((p, i) => `${names[i]}: ${tsParamType(p.type)}`);
+    // the trailing overrides argument gives way to a contract parameter of the same name
+    let overrides = 'overrides';
+    while (names.includes(overrides)) overrides += '_';
+
+    const docLines: string[] = method.doc ? [method.doc, ''] : [];
+    for (const p of params) {
+      docLines.push(`@param ${safeIdentifier(p.name)} - ${p.doc ?? p.type}`);
+    }
+    if (isView) {
+      docLines.push(`@param ${overrides} - Optional caller context`);
+      docLines.push(`@returns Decoded \`${method.returns ?? 'any'}\` result`);
+    } else {
+      docLines.push(`@param ${overrides} - Native OCT \`amount\` and \`ou\` (default ou: ${method.ou ?? 10000})`);
+    }
+
+    out.push('');
+    out.push(...jsDoc(docLines, '  '));
+    if (isView) {
+      out.push(
+        `  ${method.name}(${[...args, `${overrides}?: ContractViewOverrides`].join(', ')}): Promise<${tsReturnType(method.returns)}> {`,
+        `    return this.binding.view.${method.name}(${[...names, overrides].join(', ')});`,
+        '  }',
+      );
+    } else {
+      out.push(
+        `  ${method.name}(${[...args, `${overrides}?: ContractCallOverrides`].join(', ')}): Promise<TransactionResult> {`,
+        `    return this.binding.${method.name}(${[...names, overrides].join(', ')});`,
+        '  }',
+      );
+    }
+  }
+
+  out.push('}', '');
+  return out.join('\n');
+}
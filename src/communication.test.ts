@@ -0,0 +1,181 @@
+import { ExtensionCommunicator } from './communication';
+import { WalletTransportAdapter, AdapterIncomingMessage, AdapterRequest } from './adapter';
+import { ErrorCode } from './types';
+
+/** Headless adapter that records requests and answers only when told to */
+function scriptedAdapter(available = true) {
+  const requests: AdapterRequest[] = [];
+  let handler: ((msg: AdapterIncomingMessage) => void) | null = null;
+  const adapter: WalletTransportAdapter = {
+    name: 'scripted',
+    displayName: 'Scripted Wallet',
+    headless: true,
+    detect: () => available,
+    postRequest: (request) => {
+      requests.push(request);
+    },
+    listen: (h) => {
+      handler = h;
+      return () => {
+        handler = null;
+      };
+    },
+  };
+  const respond = (request: AdapterRequest, error?: { code: string; message: string }) =>
+    handler?.(error ? { requestId: request.id, success: false, error } : { requestId: request.id, success: true, data: {} });
+  return { adapter, requests, respond };
+}
+
+describe('ExtensionCommunicator abort', () => {
+  let communicator: ExtensionCommunicator | undefined;
+
+  afterEach(() => {
+    communicator?.cleanup();
+    communicator = undefined;
+  });
+
+  it('rejects at once when aborted while waiting for the wallet to appear', async () => {
+    communicator = new ExtensionCommunicator(false, [], scriptedAdapter(false).adapter);
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const request = communicator.sendRequest('get_balance', {}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(request).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('rejects at once when aborted during the retry backoff', async () => {
+    const { adapter, requests } = scriptedAdapter();
+    communicator = new ExtensionCommunicator(false, [], adapter);
+    const controller = new AbortController();
+    const started = Date.now();
+
+    // the wallet never answers: the first attempt times out, then retry waits 1s
+    const request = communicator.sendRequestWithRetry('ping', {}, 1, 20, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(request).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    expect(Date.now() - started).toBeLessThan(900);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('ExtensionCommunicator approval queue', () => {
+  let communicator: ExtensionCommunicator | undefined;
+
+  afterEach(() => {
+    communicator?.cleanup();
+    communicator = undefined;
+  });
+
+  // lets a released popup lock reach the next waiter
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  function setup(maxDepth?: number) {
+    const script = scriptedAdapter();
+    communicator = new ExtensionCommunicator(false, [], script.adapter);
+    if (maxDepth !== undefined) communicator.setApprovalQueue({ maxDepth });
+    const events: number[][] = [];
+    communicator.on('approvalQueueChanged', ({ data }) => {
+      events.push(data.entries.map((entry: { ticket: number }) => entry.ticket));
+    });
+    return { ...script, communicator, events };
+  }
+
+  const sent = (requests: AdapterRequest[]) => requests.map((request) => (request.params as { n: number }).n);
+
+  it('opens queued popups one at a time in FIFO order', async () => {
+    const { communicator: c, requests, respond } = setup(5);
+    const positions: string[] = [];
+    const done: number[] = [];
+    const send = (n: number) => c.sendRequest('signMessage', { n }, {
+      onQueuePosition: (position, length) => positions.push(`${n}:${position}/${length}`),
+    }).then(() => done.push(n));
+
+    const all = Promise.all([send(1), send(2), send(3)]);
+    await flush();
+    expect(sent(requests)).toEqual([1]);
+    expect(positions).toEqual(['1:1/1', '1:1/2', '2:2/2', '1:1/3', '2:2/3', '3:3/3']);
+
+    respond(requests[0]);
+    await flush();
+    expect(sent(requests)).toEqual([1, 2]);
+    respond(requests[1]);
+    await flush();
+    respond(requests[2]);
+    await all;
+
+    expect(sent(requests)).toEqual([1, 2, 3]);
+    expect(done).toEqual([1, 2, 3]);
+    expect(positions.slice(6)).toEqual(['2:1/2', '3:2/2', '3:1/1']);
+  });
+
+  it('rejects requests beyond maxDepth', async () => {
+    const { communicator: c, requests, respond } = setup(1);
+
+    const first = c.sendRequest('signMessage', { n: 1 });
+    const second = c.sendRequest('signMessage', { n: 2 });
+    await expect(c.sendRequest('signMessage', { n: 3 }))
+      .rejects.toMatchObject({ code: ErrorCode.RATE_LIMIT_EXCEEDED, details: { maxDepth: 1 } });
+
+    respond(requests[0]);
+    await flush();
+    respond(requests[1]);
+    await Promise.all([first, second]);
+    expect(sent(requests)).toEqual([1, 2]);
+  });
+
+  it('drops an aborted waiter without sending it', async () => {
+    const { communicator: c, requests, respond, events } = setup(5);
+    const controller = new AbortController();
+
+    const first = c.sendRequest('signMessage', { n: 1 });
+    const second = c.sendRequest('signMessage', { n: 2 }, { signal: controller.signal });
+    const third = c.sendRequest('signMessage', { n: 3 });
+    await flush();
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    expect(c.getApprovalQueue().map((entry) => entry.position)).toEqual([1, 2]);
+    expect(events[events.length - 1]).toHaveLength(2);
+
+    respond(requests[0]);
+    await flush();
+    respond(requests[1]);
+    await Promise.all([first, third]);
+    expect(sent(requests)).toEqual([1, 3]);
+  });
+
+  it('hands the popup to the next waiter after a rejection', async () => {
+    const { communicator: c, requests, respond } = setup(5);
+
+    const first = c.sendRequest('signMessage', { n: 1 });
+    const second = c.sendRequest('signMessage', { n: 2 });
+    await flush();
+
+    respond(requests[0], { code: 'USER_REJECTED', message: 'User rejected the request' });
+    await expect(first).rejects.toMatchObject({ code: ErrorCode.USER_REJECTED });
+    await flush();
+    expect(sent(requests)).toEqual([1, 2]);
+
+    respond(requests[1]);
+    await expect(second).resolves.toBeDefined();
+    expect(c.getApprovalQueue()).toEqual([]);
+  });
+
+  it('stays silent while queueing is off', async () => {
+    const { communicator: c, requests, respond, events } = setup();
+    const onQueuePosition = jest.fn();
+
+    const first = c.sendRequest('signMessage', { n: 1 }, { onQueuePosition });
+    await expect(c.sendRequest('signMessage', { n: 2 }, { onQueuePosition }))
+      .rejects.toMatchObject({ code: ErrorCode.RATE_LIMIT_EXCEEDED });
+    respond(requests[0]);
+    await first;
+
+    expect(onQueuePosition).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+  });
+});
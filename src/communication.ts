@@ -1,15 +1,40 @@
 import {
+  ApprovalQueueEntry,
+  ApprovalQueueOptions,
   ExtensionRequest,
   ExtensionResponse,
   ErrorCode,
+  RequestOptions,
+  WalletEventType,
   ZeroXIOWalletError
 } from './types';
 import type { WalletTransportAdapter } from './adapter';
 import { createZeroXIOAdapter } from './supports/0xio';
-import { retry, withTimeout, createLogger } from './utils';
+import { retry, withTimeout, createLogger, createAbortError, throwIfAborted } from './utils';
 import { EventEmitter } from './events';
 
-export class ExtensionCommunicator extends EventEmitter {
+/** Event data exactly as the adapter delivered it — ZeroXIOWallet validates it before re-emitting */
+export type BridgeEventMap = { [K in WalletEventType]: any };
+
+export interface SendRequestOptions extends RequestOptions {
+  /** Response timeout in ms (default 30000; popup methods wait at least 180000) */
+  readonly timeout?: number;
+}
+
+interface ApprovalTicket {
+  readonly ticket: number;
+  readonly method: string;
+  readonly onQueuePosition?: (position: number, length: number) => void;
+  /** Last position/length reported to onQueuePosition */
+  reported?: string;
+}
+
+interface ApprovalWaiter extends ApprovalTicket {
+  start(): void;
+  fail(error: Error): void;
+}
+
+export class ExtensionCommunicator extends EventEmitter<BridgeEventMap> {
   private pendingRequests = new Map<string, {
     resolve: (value: any) => void;
     reject: (error: Error) => void;
@@ -46,6 +71,12 @@ export class ExtensionCommunicator extends EventEmitter {
    */
   private _interactiveInFlight = false;
 
+  /** FIFO of popup requests waiting for the lock; null = reject instead of queueing */
+  private approvalQueue: Required<ApprovalQueueOptions> | null = null;
+  private approvalWaiters: ApprovalWaiter[] = [];
+  private activeApproval: ApprovalTicket | null = null;
+  private approvalTicketCounter = 0;
+
   private readonly MAX_CONCURRENT_REQUESTS = 50;
   private readonly RATE_LIMIT_WINDOW = 1000;
   private readonly MAX_REQUESTS_PER_WINDOW = 20;
@@ -92,6 +123,26 @@ export class ExtensionCommunicator extends EventEmitter {
     }
   }
 
+  /**
+   * Queue popup requests made while another popup is open (FIFO, at most
+   * `maxDepth` waiting) instead of rejecting them. `null` turns queueing off;
+   * requests already waiting keep their place.
+   */
+  setApprovalQueue(options: ApprovalQueueOptions | null): void {
+    this.approvalQueue = options ? { maxDepth: Math.max(1, options.maxDepth ?? 5) } : null;
+  }
+
+  /** The open popup request first, then the waiting ones */
+  getApprovalQueue(): ApprovalQueueEntry[] {
+    const tickets = this.activeApproval ? [this.activeApproval, ...this.approvalWaiters] : [...this.approvalWaiters];
+    return tickets.map((entry, i) => ({ ticket: entry.ticket, method: entry.method, position: i + 1 }));
+  }
+
+  /** Name of the transport adapter in use (WalletTransportAdapter.name) */
+  getAdapterName(): string {
+    return this.adapter.name;
+  }
+
   isExtensionAvailable(): boolean {
     return this.isExtensionAvailableState && this.hasExtensionContext();
   }
@@ -100,31 +151,42 @@ export class ExtensionCommunicator extends EventEmitter {
   // Retrying sends a second request while the first popup is still open,
   // causing double popups where the second tx fails (stale nonce/state).
   private static readonly NO_RETRY_METHODS = new Set([
-    'connect', 'send_transaction', 'call_contract', 'signMessage',
+    'connect', 'send_transaction', 'send_transactions', 'call_contract', 'signMessage', 'sign_typed_data',
     'sign_transaction', 'broadcast_only',
     'send_private_transfer', 'claim_private_transfer',
     'encrypt_balance', 'decrypt_balance',
+    'request_accounts', 'select_account', 'request_permissions',
   ]);
 
   private static readonly INTERACTIVE_METHODS = ExtensionCommunicator.NO_RETRY_METHODS;
 
+  /**
+   * Send `method` to the wallet. `options` is the timeout in ms or
+   * `{ timeout, signal }`; aborting the signal rejects with ABORTED, releases
+   * the popup lock and sends a best-effort `cancel_request` to the wallet.
+   */
   async sendRequest<T = any>(
     method: string,
     params: any = {},
-    timeout = 30000
+    options: number | SendRequestOptions = {}
   ): Promise<T> {
+    const { timeout = 30000, signal, onQueuePosition } = typeof options === 'number' ? { timeout: options } : options;
     const isInteractive = ExtensionCommunicator.NO_RETRY_METHODS.has(method);
     const maxRetries = isInteractive ? 0 : 1;
     const effectiveTimeout = isInteractive ? Math.max(timeout, 180000) : timeout;
-    return this.sendRequestWithRetry(method, params, maxRetries, effectiveTimeout);
+    return this.sendRequestWithRetry(method, params, maxRetries, effectiveTimeout, { signal, onQueuePosition });
   }
 
   async sendRequestWithRetry<T = any>(
     method: string,
     params: any = {},
     maxRetries = 3,
-    timeout = 30000
+    timeout = 30000,
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
+    const { signal } = requestOptions;
+    throwIfAborted(signal, method);
+
     if (!this.hasExtensionContext()) {
       throw new ZeroXIOWalletError(
         ErrorCode.EXTENSION_NOT_FOUND,
@@ -134,7 +196,7 @@ export class ExtensionCommunicator extends EventEmitter {
     }
 
     if (!this.isExtensionAvailableState) {
-      await this.waitForExtensionAvailability(5000);
+      await this.waitForExtensionAvailability(5000, signal, method);
 
       if (!this.isExtensionAvailableState) {
         throw new ZeroXIOWalletError(
@@ -143,24 +205,21 @@ export class ExtensionCommunicator extends EventEmitter {
           { method, extensionState: this.getExtensionDiagnostics() }
         );
       }
+      throwIfAborted(signal, method);
     }
 
     // Enforce one-at-a-time for interactive popup methods
     const isInteractive = ExtensionCommunicator.INTERACTIVE_METHODS.has(method);
     if (isInteractive) {
-      if (this._interactiveInFlight) {
-        throw new ZeroXIOWalletError(
-          ErrorCode.RATE_LIMIT_EXCEEDED,
-          'Another approval popup is already open. Please wait for it to complete.'
-        );
-      }
-      this._interactiveInFlight = true;
+      await this.acquireApproval(method, requestOptions);
     }
 
-    this.checkRateLimit();
-
     try {
+      // inside try: a rate-limit rejection must still release the popup lock
+      this.checkRateLimit();
+
       return await retry(async () => {
+        throwIfAborted(signal, method);
         const requestId = this.generateRequestId();
         const request: ExtensionRequest = {
           id: requestId,
@@ -171,7 +230,24 @@ export class ExtensionCommunicator extends EventEmitter {
 
         this.logger.log(`Sending request (${method}):`, { id: requestId });
 
-        return new Promise<T>((resolve, reject) => {
+        return new Promise<T>((resolvePromise, rejectPromise) => {
+          const onAbort = () => {
+            const pending = this.pendingRequests.get(requestId);
+            if (!pending) return;
+            clearTimeout(pending.timeout);
+            this.pendingRequests.delete(requestId);
+            this.cancelRequest(requestId, method);
+            reject(createAbortError(method, signal));
+          };
+          const resolve = (value: T) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolvePromise(value);
+          };
+          const reject = (error: Error) => {
+            signal?.removeEventListener('abort', onAbort);
+            rejectPromise(error);
+          };
+
           const timeoutHandle = setTimeout(() => {
             const pending = this.pendingRequests.get(requestId);
             if (pending) {
@@ -202,18 +278,118 @@ export class ExtensionCommunicator extends EventEmitter {
               'Request params are not serializable',
               { method, requestId }
             ));
+            return;
+          }
+
+          // a synchronous adapter may have answered already
+          if (this.pendingRequests.has(requestId)) {
+            signal?.addEventListener('abort', onAbort);
           }
         });
-      }, maxRetries, 1000);
+      }, maxRetries, 1000, signal);
     } finally {
       if (isInteractive) {
-        this._interactiveInFlight = false;
+        this.releaseApproval();
       }
     }
   }
 
+  /**
+   * Take the popup lock, or wait for it in the approval queue when queueing is
+   * on. Rejects with RATE_LIMIT_EXCEEDED when the lock is taken and the queue is
+   * off or full, and with ABORTED when the signal fires while waiting.
+   */
+  private acquireApproval(method: string, options: RequestOptions): Promise<void> | void {
+    const ticket: ApprovalTicket = {
+      ticket: ++this.approvalTicketCounter,
+      method,
+      onQueuePosition: options.onQueuePosition
+    };
+
+    if (!this._interactiveInFlight) {
+      this._interactiveInFlight = true;
+      this.activeApproval = ticket;
+      this.notifyApprovalQueue();
+      return;
+    }
+    if (!this.approvalQueue) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.RATE_LIMIT_EXCEEDED,
+        'Another approval popup is already open. Please wait for it to complete.'
+      );
+    }
+    if (this.approvalWaiters.length >= this.approvalQueue.maxDepth) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.RATE_LIMIT_EXCEEDED,
+        `Approval queue is full (${this.approvalQueue.maxDepth} requests waiting)`,
+        { method, maxDepth: this.approvalQueue.maxDepth }
+      );
+    }
+
+    const { signal } = options;
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.approvalWaiters.indexOf(waiter);
+        if (index === -1) return;
+        this.approvalWaiters.splice(index, 1);
+        // never sent — nothing for the wallet to cancel
+        waiter.fail(createAbortError(method, signal));
+        this.notifyApprovalQueue(true);
+      };
+      const waiter: ApprovalWaiter = {
+        ...ticket,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        fail: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      this.approvalWaiters.push(waiter);
+      this.logger.log(`Queued ${method} behind an open popup (position ${this.approvalWaiters.length + 1})`);
+      this.notifyApprovalQueue();
+    });
+  }
+
+  /** Hand the popup lock to the next waiting request, or free it */
+  private releaseApproval(): void {
+    const next = this.approvalWaiters.shift();
+    if (next) {
+      this.activeApproval = next;
+      next.start();
+    } else {
+      this._interactiveInFlight = false;
+      this.activeApproval = null;
+    }
+    this.notifyApprovalQueue(!!next);
+  }
+
+  /**
+   * Report positions and emit approvalQueueChanged — only while queueing is on
+   * or requests are (or just were) waiting, so a plain popup lock stays silent.
+   */
+  private notifyApprovalQueue(hadWaiters = false): void {
+    if (!this.approvalQueue && !hadWaiters && this.approvalWaiters.length === 0) return;
+    const tickets = this.activeApproval ? [this.activeApproval, ...this.approvalWaiters] : this.approvalWaiters;
+    tickets.forEach((entry, i) => {
+      const report = `${i + 1}/${tickets.length}`;
+      if (!entry.onQueuePosition || entry.reported === report) return;
+      entry.reported = report;
+      try {
+        entry.onQueuePosition(i + 1, tickets.length);
+      } catch {
+        // a failing UI callback must not break the queue
+      }
+    });
+    this.emit('approvalQueueChanged', { entries: this.getApprovalQueue() });
+  }
+
   private setupMessageListener(): void {
-    if (typeof window === 'undefined') return;
+    if (typeof window === 'undefined' && !this.adapter.headless) return;
 
     this._adapterTeardown = this.adapter.listen(
       (msg) => {
@@ -240,7 +416,7 @@ export class ExtensionCommunicator extends EventEmitter {
 
   // only forward known event types
   private static readonly VALID_EVENT_TYPES = new Set<string>([
-    'connect', 'disconnect', 'accountChanged', 'balanceChanged',
+    'connect', 'disconnect', 'accountChanged', 'accountsChanged', 'balanceChanged',
     'networkChanged', 'transactionConfirmed', 'permissionsChanged', 'message',
     'error', 'extensionLocked', 'extensionUnlocked'
   ]);
@@ -295,8 +471,27 @@ export class ExtensionCommunicator extends EventEmitter {
     }
   }
 
+  /**
+   * Best effort: tell the wallet that `requestId` was abandoned so it can close
+   * the popup. Nothing waits for the answer — a response to an id that is not
+   * pending is dropped by the message listener.
+   */
+  private cancelRequest(requestId: string, method: string): void {
+    try {
+      this.postMessageToExtension({
+        id: this.generateRequestId(),
+        method: 'cancel_request',
+        params: { requestId, method },
+        timestamp: Date.now()
+      });
+    } catch {
+      // the wallet may already be gone; the request is rejected either way
+    }
+  }
+
   private postMessageToExtension(request: ExtensionRequest): void {
     this.adapter.postRequest(request);
+    if (this.adapter.headless) return;
     // Parent bridge (iframe/desktop mode) — only when a trusted origin is established.
     // Sending with '*' would leak method + params to any intercepting frame.
     if (window.parent !== window && this._parentOrigin) {
@@ -307,6 +502,8 @@ export class ExtensionCommunicator extends EventEmitter {
   }
 
   private hasExtensionContext(): boolean {
+    // Headless adapters (local signer, mocks) talk to the wallet directly — no page needed
+    if (this.adapter.headless) return true;
     return typeof window !== 'undefined' &&
       typeof window.postMessage === 'function';
   }
@@ -358,6 +555,10 @@ export class ExtensionCommunicator extends EventEmitter {
   }
 
   private startExtensionDetection(): void {
+    if (this.adapter.headless) {
+      this.isExtensionAvailableState = this.adapter.detect();
+      return;
+    }
     if (typeof window === 'undefined') return;
 
     // Adapter-provided wallet-ready events (e.g. '0xioWalletReady', 'exampleWalletReady')
@@ -439,12 +640,17 @@ export class ExtensionCommunicator extends EventEmitter {
     return this.adapter.detect();
   }
 
-  private async waitForExtensionAvailability(timeoutMs: number): Promise<boolean> {
+  /**
+   * Wait up to `timeoutMs` for the wallet to announce itself. Resolves false on
+   * timeout; aborting `signal` rejects with ABORTED for `method` right away.
+   */
+  private async waitForExtensionAvailability(timeoutMs: number, signal?: AbortSignal, method = 'request'): Promise<boolean> {
     if (this.isExtensionAvailableState) {
       return true;
     }
+    throwIfAborted(signal, method);
 
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       let resolved = false;
       const startTime = Date.now();
       let adapterReadyTeardown: (() => void) | null = null;
@@ -452,6 +658,14 @@ export class ExtensionCommunicator extends EventEmitter {
       const cleanup = () => {
         clearInterval(checkInterval);
         adapterReadyTeardown?.();
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        if (resolved) return;
+        resolved = true;
+        cleanup();
+        reject(createAbortError(method, signal));
       };
 
       const onReady = () => {
@@ -483,6 +697,7 @@ export class ExtensionCommunicator extends EventEmitter {
           resolve(false);
         }
       }, 100);
+      signal?.addEventListener('abort', onAbort);
     });
   }
 
@@ -526,6 +741,10 @@ export class ExtensionCommunicator extends EventEmitter {
       pending.reject(new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'SDK cleanup called'));
     }
     this.pendingRequests.clear();
+    for (const waiter of this.approvalWaiters.splice(0)) {
+      waiter.fail(new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'SDK cleanup called'));
+    }
+    this.activeApproval = null;
     this.isInitialized = false;
     this.isExtensionAvailableState = false;
     this._parentTrusted = false;
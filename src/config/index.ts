@@ -1,5 +1,6 @@
 import { getNetworkConfig, DEFAULT_NETWORK_ID } from './networks';
 import { Balance } from '../types';
+import { OctAmount } from '../amount';
 
 export * from './networks';
 
@@ -17,12 +18,46 @@ export function createDefaultBalance(total: number = 0): Balance {
   };
 }
 
+/**
+ * Build a Balance from exact amounts; the number fields are derived for display.
+ */
+export function createExactBalance(publicAmount: OctAmount, privateAmount: OctAmount = OctAmount.ZERO): Balance {
+  const total = publicAmount.add(privateAmount);
+  return {
+    public: publicAmount.toNumber(),
+    private: privateAmount.toNumber(),
+    total: total.toNumber(),
+    currency: 'OCT',
+    exact: { public: publicAmount, private: privateAmount, total }
+  };
+}
+
+function toExactAmount(raw: unknown): OctAmount | null {
+  if (!(raw instanceof OctAmount) && typeof raw !== 'string' && typeof raw !== 'number') return null;
+  try {
+    const amount = OctAmount.from(raw);
+    return amount.isNegative() ? null : amount;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validate and normalise a Balance from an untrusted source (bridge response).
  * Returns null if the payload cannot be coerced into a valid Balance.
+ * `exact` is filled in when both amounts parse exactly in micro-OCT.
  */
 export function validateBalance(raw: any): Balance | null {
   if (raw === null || raw === undefined) return null;
+
+  const exactPub = toExactAmount(
+    typeof raw === 'object' ? raw.exact?.public ?? raw.public ?? raw.total ?? 0 : raw
+  );
+  const exactPriv = toExactAmount(typeof raw === 'object' ? raw.exact?.private ?? raw.private ?? 0 : 0);
+  if (exactPub && exactPriv) {
+    return createExactBalance(exactPub, exactPriv);
+  }
+
   // If it's already a Balance-shaped object, extract numeric fields
   // Use Number() not parseFloat() — parseFloat('10abc') silently returns 10
   const pub = typeof raw === 'object' ? Number(raw.public ?? raw.total ?? 0) : Number(raw);
@@ -43,6 +78,9 @@ export const SDK_CONFIG = {
   communicationTimeout: 30000, // 30 seconds
   retryAttempts: 3,
   retryDelay: 1000, // 1 second
+  maxBatchSize: 500, // transactions per sendTransactions() call
+  ouSafetyMargin: 0.2, // +20% over simulated OU for ou: 'auto'
+  simulationProbeTimeout: 3000, // first wallet simulate_contract_call before falling back to RPC
 } as const;
 
 export function getDefaultNetwork() {
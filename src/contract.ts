@@ -0,0 +1,362 @@
+/**
+ * 0xio SDK — Typed contract bindings
+ *
+ * defineContract() turns a JSON description of a contract's methods into an
+ * object with one function per method:
+ *
+ * ```typescript
+ * const dex = defineContract({
+ *   methods: [
+ *     { name: 'swap', kind: 'call', ou: 20000,
+ *       params: [{ name: 'amount_in', type: 'int' }, { name: 'x_for_y', type: 'bool' }, { name: 'min_out', type: 'int' }] },
+ *     { name: 'get_active_bin', kind: 'view', returns: 'int' },
+ *   ],
+ * }, { wallet, address: 'oct26Lia...' });
+ *
+ * await dex.swap(100000, true, 90000);           // TransactionResult
+ * const bin = await dex.view.get_active_bin();   // number
+ * ```
+ *
+ * Arguments are checked against the descriptor before anything is sent, and
+ * view results are decoded into the declared return type.
+ */
+
+import {
+  ContractCallData,
+  ContractParam,
+  ContractViewCallData,
+  TransactionResult,
+  ErrorCode,
+  ZeroXIOWalletError
+} from './types';
+import type { OctAmountInput } from './amount';
+import { isValidAddress } from './utils';
+import { Address, decodeAddress, decodeBigInt, decodeBytes, isAddress, isBase64 } from './encoding';
+
+/**
+ * Argument types understood by the binding layer. 'int' accepts numbers and bigints;
+ * 'bigint' additionally decodes view results as bigint. 'bytes' accepts raw bytes or base64.
+ */
+export type ContractParamType = 'int' | 'bigint' | 'string' | 'bool' | 'address' | 'bytes';
+
+/** Declared result type of a view method. 'json' parses string results; 'any' passes them through. */
+export type ContractReturnType = ContractParamType | 'json' | 'any' | 'void';
+
+export interface ContractParamDescriptor {
+  readonly name: string;
+  readonly type: ContractParamType;
+  /** Description, carried into generated JSDoc */
+  readonly doc?: string;
+}
+
+export interface ContractMethodDescriptor {
+  readonly name: string;
+  readonly params?: readonly ContractParamDescriptor[];
+  /** 'view' methods are read-only and never prompt the user (default 'call') */
+  readonly kind?: 'view' | 'call';
+  /** Result type of a view method (default 'any') */
+  readonly returns?: ContractReturnType;
+  /** Default operation units for call methods (default 10000; 'auto' simulates first) */
+  readonly ou?: string | number | 'auto';
+  readonly doc?: string;
+}
+
+export interface ContractDescriptor {
+  /** Used in error messages */
+  readonly name?: string;
+  readonly doc?: string;
+  /** Default deployment address, used by generated bindings */
+  readonly address?: string;
+  readonly methods: readonly ContractMethodDescriptor[];
+}
+
+/** Per-call overrides, passed as one extra trailing argument */
+export interface ContractCallOverrides {
+  readonly amount?: OctAmountInput;
+  readonly ou?: string | number | 'auto';
+}
+
+export interface ContractViewOverrides {
+  readonly caller?: string;
+}
+
+/**
+ * Anything that can execute contract calls — ZeroXIOWallet, or OctraRpcClient
+ * for view-only bindings.
+ */
+export interface ContractRunner {
+  callContract?(data: ContractCallData): Promise<TransactionResult>;
+  contractCallView(data: ContractViewCallData): Promise<any>;
+}
+
+export interface DefineContractOptions {
+  readonly wallet: ContractRunner;
+  /** Deployed contract address (oct-prefixed, 47 chars) */
+  readonly address: string;
+}
+
+type ParamValue<T> =
+  T extends 'int' | 'bigint' ? number | bigint :
+  T extends 'bool' ? boolean :
+  T extends 'bytes' ? Uint8Array | ArrayBuffer | string :
+  string;
+
+type ReturnValue<T> =
+  T extends 'int' ? number :
+  T extends 'bigint' ? bigint :
+  T extends 'bool' ? boolean :
+  T extends 'address' ? Address :
+  T extends 'bytes' ? Uint8Array :
+  T extends 'string' ? string :
+  T extends 'void' ? null :
+  T extends 'json' ? unknown :
+  any;
+
+type ArgsOf<M> = M extends { readonly params: infer P }
+  ? { -readonly [K in keyof P]: P[K] extends { readonly type: infer T } ? ParamValue<T> : never }
+  : [];
+
+type ViewMethods<D extends ContractDescriptor> = Extract<D['methods'][number], { readonly kind: 'view' }>;
+type CallMethods<D extends ContractDescriptor> = Exclude<D['methods'][number], { readonly kind: 'view' }>;
+
+type CallFunctions<D extends ContractDescriptor> = {
+  readonly [M in CallMethods<D> as M['name']]:
+    (...args: [...ArgsOf<M>, ContractCallOverrides?]) => Promise<TransactionResult>;
+};
+
+type ViewFunctions<D extends ContractDescriptor> = {
+  readonly [M in ViewMethods<D> as M['name']]:
+    (...args: [...ArgsOf<M>, ContractViewOverrides?]) => Promise<ReturnValue<M['returns']>>;
+};
+
+export type ContractBinding<D extends ContractDescriptor> = CallFunctions<D> & {
+  readonly address: string;
+  readonly descriptor: D;
+  readonly view: ViewFunctions<D>;
+};
+
+const PARAM_TYPES = new Set<string>(['int', 'bigint', 'string', 'bool', 'address', 'bytes']);
+const RETURN_TYPES = new Set<string>([...PARAM_TYPES, 'json', 'any', 'void']);
+const RESERVED_NAMES = new Set(['address', 'descriptor', 'view']);
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+
+function invalidParams(message: string, details?: unknown): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, message, details);
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function checkParam(type: ContractParamType, value: unknown): boolean {
+  switch (type) {
+    case 'int':
+    case 'bigint':
+      return typeof value === 'bigint' || (typeof value === 'number' && Number.isSafeInteger(value));
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'address':
+      return isAddress(value);
+    case 'bytes':
+      return value instanceof ArrayBuffer || ArrayBuffer.isView(value) || isBase64(value);
+  }
+}
+
+function decodeResult(type: ContractReturnType, raw: unknown, label: string): unknown {
+  const fail = () => new ZeroXIOWalletError(
+    ErrorCode.NETWORK_ERROR,
+    `${label} returned a value that is not a valid ${type}`,
+    { result: raw }
+  );
+
+  switch (type) {
+    case 'any':
+      return raw;
+    case 'void':
+      return null;
+    case 'int': {
+      const n = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof n !== 'number' || !Number.isSafeInteger(n)) throw fail();
+      return n;
+    }
+    case 'bigint':
+    case 'bytes':
+    case 'address':
+      try {
+        return type === 'bigint' ? decodeBigInt(raw) : type === 'bytes' ? decodeBytes(raw) : decodeAddress(raw);
+      } catch {
+        throw fail();
+      }
+    case 'bool':
+      if (raw === true || raw === 'true' || raw === 1 || raw === '1') return true;
+      if (raw === false || raw === 'false' || raw === 0 || raw === '0') return false;
+      throw fail();
+    case 'string':
+      if (raw === null || raw === undefined || typeof raw === 'object') throw fail();
+      return String(raw);
+    case 'json':
+      if (typeof raw !== 'string') return raw;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw fail();
+      }
+  }
+}
+
+function isOverrides(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural validation of a descriptor. Throws INVALID_PARAMS.
+ * @internal shared with the code generator
+ */
+export function assertContractDescriptor(descriptor: ContractDescriptor): void {
+  if (!descriptor || !Array.isArray(descriptor.methods)) {
+    throw invalidParams('Contract descriptor must have a methods array');
+  }
+  const seen = new Set<string>();
+  for (const method of descriptor.methods) {
+    const name = method?.name;
+    if (!name || typeof name !== 'string' || name.length > 200) {
+      throw invalidParams('Contract method descriptor needs a name (max 200 characters)');
+    }
+    if (seen.has(name)) {
+      throw invalidParams(`Duplicate contract method "${name}"`);
+    }
+    if ((method.kind ?? 'call') === 'call' && RESERVED_NAMES.has(name)) {
+      throw invalidParams(`Contract method name "${name}" is reserved by the binding`);
+    }
+    if (method.kind !== undefined && method.kind !== 'view' && method.kind !== 'call') {
+      throw invalidParams(`Contract method "${name}" has unknown kind "${method.kind}"`);
+    }
+    if (method.returns !== undefined && !RETURN_TYPES.has(method.returns)) {
+      throw invalidParams(`Contract method "${name}" has unknown return type "${method.returns}"`);
+    }
+    const paramNames = new Set<string>();
+    for (const param of method.params ?? []) {
+      if (!param?.name || !PARAM_TYPES.has(param.type)) {
+        throw invalidParams(`Contract method "${name}" has an invalid parameter descriptor`, { param });
+      }
+      if (typeof param.name !== 'string' || !IDENTIFIER_RE.test(param.name)) {
+        throw invalidParams(`Contract method "${name}" parameter "${param.name}" is not a valid identifier`, { param });
+      }
+      if (paramNames.has(param.name)) {
+        throw invalidParams(`Contract method "${name}" has duplicate parameter "${param.name}"`, { param });
+      }
+      paramNames.add(param.name);
+    }
+    seen.add(name);
+  }
+}
+
+/**
+ * Validate arguments against a method descriptor and split off the optional
+ * trailing overrides object. Returns the flat params array sent on the wire.
+ */
+function bindArgs(
+  method: ContractMethodDescriptor,
+  args: unknown[],
+  label: string
+): { params: ContractParam[]; overrides: Record<string, unknown> } {
+  const specs = method.params ?? [];
+  let overrides: Record<string, unknown> = {};
+
+  const last = args[args.length - 1];
+  if (args.length === specs.length + 1 && (last === undefined || isOverrides(last))) {
+    overrides = (last ?? {}) as Record<string, unknown>;
+    args = args.slice(0, -1);
+  }
+
+  const signature = specs.map((p) => `${p.name}: ${p.type}`).join(', ');
+  if (args.length !== specs.length) {
+    const wrapped = args.length === 1 && Array.isArray(args[0]) && specs.length !== 1;
+    throw invalidParams(
+      `${label}(${signature}) expects ${specs.length} argument(s), got ${args.length}` +
+      (wrapped ? ' — pass arguments flat, not wrapped in an array' : ''),
+      { method: method.name, expected: specs.length, received: args.length }
+    );
+  }
+
+  args.forEach((value, i) => {
+    const spec = specs[i];
+    if (!checkParam(spec.type, value)) {
+      throw invalidParams(
+        `${label}: argument ${i + 1} (${spec.name}) must be ${spec.type}, got ${describeValue(value)}`,
+        { method: method.name, param: spec.name, index: i, expected: spec.type }
+      );
+    }
+  });
+
+  return { params: args as ContractParam[], overrides };
+}
+
+/**
+ * Build typed bindings for a deployed contract from its method descriptor.
+ * Pass the descriptor inline (or `as const`) to get typed argument lists and
+ * view return types; a descriptor loaded from JSON still works, untyped.
+ */
+export function defineContract<const D extends ContractDescriptor>(
+  descriptor: D,
+  options: DefineContractOptions
+): ContractBinding<D> {
+  assertContractDescriptor(descriptor);
+
+  const { wallet, address } = options ?? ({} as DefineContractOptions);
+  if (!wallet || typeof wallet.contractCallView !== 'function') {
+    throw invalidParams('defineContract requires a wallet (or another ContractRunner)');
+  }
+  if (!isValidAddress(address)) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid contract address');
+  }
+
+  const prefix = descriptor.name ? `${descriptor.name}.` : '';
+  const calls: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+  const views: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+
+  for (const method of descriptor.methods) {
+    if (method.kind === 'view') {
+      const label = `${prefix}view.${method.name}`;
+      views[method.name] = async (...args: unknown[]) => {
+        const { params, overrides } = bindArgs(method, args, label);
+        const result = await wallet.contractCallView({
+          contract: address,
+          method: method.name,
+          params,
+          ...(typeof overrides.caller === 'string' ? { caller: overrides.caller } : {}),
+        });
+        return decodeResult(method.returns ?? 'any', result, label);
+      };
+    } else {
+      const label = `${prefix}${method.name}`;
+      calls[method.name] = async (...args: unknown[]) => {
+        const { params, overrides } = bindArgs(method, args, label);
+        if (typeof wallet.callContract !== 'function') {
+          throw new ZeroXIOWalletError(
+            ErrorCode.PERMISSION_DENIED,
+            `${label} is a state-changing call; bind the contract to a wallet that can sign`
+          );
+        }
+        return wallet.callContract({
+          contract: address,
+          method: method.name,
+          params,
+          ...(overrides.amount != null ? { amount: overrides.amount as OctAmountInput } : {}),
+          ou: (overrides.ou as ContractCallData['ou']) ?? method.ou,
+        });
+      };
+    }
+  }
+
+  return Object.freeze({
+    ...calls,
+    address,
+    descriptor,
+    view: Object.freeze(views),
+  }) as unknown as ContractBinding<D>;
+}
@@ -0,0 +1,170 @@
+/**
+ * 0xio SDK — Multi-wallet discovery
+ *
+ * EIP-6963-style handshake between dApps and RFC-O-1 wallets:
+ *
+ * - a wallet dispatches `octra:announceProvider` on window with
+ *   `detail: { info: { uuid, name, icon, rdns }, provider }` when it loads and
+ *   again each time it sees `octra:requestProvider`;
+ * - the SDK listens for announcements and dispatches `octra:requestProvider`.
+ *
+ * Every announced wallet becomes a DiscoveredWallet with its own adapter bound
+ * to the announced provider, so two installed wallets no longer compete for
+ * `window.octra` and each one can be connected.
+ */
+
+import type { WalletTransportAdapter } from './adapter';
+import { createOctraProviderAdapter } from './supports/octra-provider';
+import type { OctraProvider } from './supports/octra-provider';
+
+export const ANNOUNCE_PROVIDER_EVENT = 'octra:announceProvider';
+export const REQUEST_PROVIDER_EVENT = 'octra:requestProvider';
+
+export interface OctraProviderInfo {
+  /** Per-session UUIDv4 — announcements are deduplicated on it */
+  readonly uuid: string;
+  /** Human-readable wallet name */
+  readonly name: string;
+  /** Icon as a data: URI (or URL) */
+  readonly icon: string;
+  /** Reverse-DNS identifier, e.g. 'xyz.0xio' — stable across sessions */
+  readonly rdns: string;
+}
+
+export interface OctraProviderDetail {
+  readonly info: OctraProviderInfo;
+  readonly provider: OctraProvider;
+}
+
+export interface DiscoveredWallet extends OctraProviderDetail {
+  /** Adapter bound to this provider; pass it as SDKConfig.adapter */
+  readonly adapter: WalletTransportAdapter;
+}
+
+export interface DiscoverWalletsOptions {
+  /** How long to collect announcements, in ms (default 100) */
+  readonly timeout?: number;
+}
+
+export type WalletsListener = (wallets: readonly DiscoveredWallet[]) => void;
+
+let discovered: readonly DiscoveredWallet[] = [];
+const listeners = new Set<WalletsListener>();
+let listening = false;
+
+function isProviderDetail(detail: any): detail is OctraProviderDetail {
+  const info = detail?.info;
+  return (
+    typeof info?.uuid === 'string' && info.uuid.length > 0 &&
+    typeof info.name === 'string' &&
+    typeof info.icon === 'string' &&
+    typeof info.rdns === 'string' && info.rdns.length > 0 &&
+    typeof detail.provider?.request === 'function' &&
+    typeof detail.provider.on === 'function' &&
+    typeof detail.provider.removeListener === 'function'
+  );
+}
+
+function handleAnnounce(event: Event): void {
+  const detail = (event as CustomEvent).detail;
+  if (!isProviderDetail(detail)) return;
+  if (discovered.some((wallet) => wallet.info.uuid === detail.info.uuid)) return;
+
+  const info: OctraProviderInfo = Object.freeze({
+    uuid: detail.info.uuid,
+    name: detail.info.name,
+    icon: detail.info.icon,
+    rdns: detail.info.rdns,
+  });
+  const wallet: DiscoveredWallet = Object.freeze({
+    info,
+    provider: detail.provider,
+    adapter: createOctraProviderAdapter({
+      provider: detail.provider,
+      // rdns is stable across reloads, so persisted sessions find the same wallet again
+      name: `octra-provider:${info.rdns}`,
+      displayName: info.name,
+      icon: info.icon,
+      rdns: info.rdns,
+    }),
+  });
+  discovered = Object.freeze([...discovered, wallet]);
+
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(discovered);
+    } catch {
+      // a failing listener must not hide the wallet from the others
+    }
+  }
+}
+
+function startListening(): boolean {
+  if (typeof window === 'undefined') return false;
+  if (!listening) {
+    window.addEventListener(ANNOUNCE_PROVIDER_EVENT, handleAnnounce);
+    listening = true;
+  }
+  return true;
+}
+
+/**
+ * Ask installed wallets to announce themselves. Announcements arrive through
+ * discoverWallets() / watchWallets().
+ */
+export function requestWallets(): void {
+  if (!startListening()) return;
+  window.dispatchEvent(new Event(REQUEST_PROVIDER_EVENT));
+}
+
+/**
+ * Every wallet announced so far, without asking again.
+ */
+export function getDiscoveredWallets(): readonly DiscoveredWallet[] {
+  return discovered;
+}
+
+/**
+ * Request announcements and resolve with every wallet that answered within
+ * `timeout`. Wallets that load later are picked up by watchWallets().
+ * Resolves with an empty list outside the browser.
+ *
+ * @example
+ * const wallets = await discoverWallets();
+ * const wallet = new ZeroXIOWallet({ appName: 'My DApp', adapter: wallets[0].adapter });
+ */
+export async function discoverWallets(options: DiscoverWalletsOptions = {}): Promise<readonly DiscoveredWallet[]> {
+  if (typeof window === 'undefined') return [];
+  requestWallets();
+  await new Promise((resolve) => setTimeout(resolve, options.timeout ?? 100));
+  return discovered;
+}
+
+/**
+ * Call `listener` with the current list now and again whenever a wallet
+ * announces itself. Returns an unsubscribe function.
+ */
+export function watchWallets(listener: WalletsListener): () => void {
+  if (!startListening()) return () => { };
+  listeners.add(listener);
+  listener(discovered);
+  requestWallets();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Wallet side of the handshake: announce `detail` now and on every
+ * `octra:requestProvider`. Returns a function that stops answering.
+ */
+export function announceProvider(detail: OctraProviderDetail): () => void {
+  if (typeof window === 'undefined') return () => { };
+  const frozen: OctraProviderDetail = Object.freeze({ info: Object.freeze({ ...detail.info }), provider: detail.provider });
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent(ANNOUNCE_PROVIDER_EVENT, { detail: frozen }));
+  };
+  window.addEventListener(REQUEST_PROVIDER_EVENT, announce);
+  announce();
+  return () => window.removeEventListener(REQUEST_PROVIDER_EVENT, announce);
+}
@@ -0,0 +1,77 @@
+import { verifyEd25519, verifyEd25519Js } from './ed25519';
+
+const fromHex = (text: string) => new Uint8Array(Buffer.from(text, 'hex'));
+
+// RFC 8032 section 7.1, TEST 1-3
+const RFC8032_VECTORS = [
+  {
+    name: 'TEST 1 (empty message)',
+    publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    message: '',
+    signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+  },
+  {
+    name: 'TEST 2 (1 byte)',
+    publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+  },
+  {
+    name: 'TEST 3 (2 bytes)',
+    publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+    message: 'af82',
+    signature: '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a',
+  },
+];
+
+// group order L, little-endian
+const L = (BigInt(1) << BigInt(252)) + BigInt('27742317777372353535851937790883648493');
+
+function numberToBytesLE(n: bigint): Uint8Array {
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    out[i] = Number(n & BigInt(0xff));
+    n >>= BigInt(8);
+  }
+  return out;
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let n = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << BigInt(8)) | BigInt(bytes[i]);
+  return n;
+}
+
+describe.each([
+  ['verifyEd25519Js', verifyEd25519Js],
+  ['verifyEd25519', verifyEd25519],
+])('%s', (_label, verify) => {
+  it.each(RFC8032_VECTORS)('accepts RFC 8032 $name', async ({ publicKey, message, signature }) => {
+    await expect(verify(fromHex(publicKey), fromHex(signature), fromHex(message))).resolves.toBe(true);
+  });
+
+  it.each(RFC8032_VECTORS)('rejects a modified message for $name', async ({ publicKey, message, signature }) => {
+    const tampered = new Uint8Array([...fromHex(message), 0x00]);
+    await expect(verify(fromHex(publicKey), fromHex(signature), tampered)).resolves.toBe(false);
+  });
+
+  it('rejects a signature with a flipped bit', async () => {
+    const { publicKey, message, signature } = RFC8032_VECTORS[1];
+    const sig = fromHex(signature);
+    sig[40] ^= 0x01;
+    await expect(verify(fromHex(publicKey), sig, fromHex(message))).resolves.toBe(false);
+  });
+
+  it('rejects a non-canonical S (S + L)', async () => {
+    const { publicKey, message, signature } = RFC8032_VECTORS[0];
+    const sig = fromHex(signature);
+    sig.set(numberToBytesLE(bytesToNumberLE(sig.subarray(32)) + L), 32);
+    await expect(verify(fromHex(publicKey), sig, fromHex(message))).resolves.toBe(false);
+  });
+
+  it('rejects keys and signatures of the wrong length', async () => {
+    const { publicKey, message, signature } = RFC8032_VECTORS[0];
+    await expect(verify(fromHex(publicKey).subarray(1), fromHex(signature), fromHex(message))).resolves.toBe(false);
+    await expect(verify(fromHex(publicKey), fromHex(signature).subarray(1), fromHex(message))).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * 0xio SDK — Ed25519 signature verification
+ *
+ * Verifies with Web Crypto when the runtime supports Ed25519 (Node 20+, current
+ * browsers) and falls back to a pure-JS implementation of RFC 8032 otherwise
+ * (older Safari, insecure contexts without crypto.subtle). Verification only —
+ * nothing here touches private keys, so the bigint arithmetic does not need to
+ * be constant-time.
+ *
+ * @internal Consumers use verifyMessage() / recoverAndCheckAddress() from utils.
+ */
+
+import { sha512 } from './hash';
+
+const P = BigInt(2) ** BigInt(255) - BigInt(19);
+const L = BigInt(2) ** BigInt(252) + BigInt('27742317777372353535851937790883648493');
+const D = BigInt('37095705934669439343138083508754565189542113879843219016388785533085940283555');
+const SQRT_M1 = BigInt('19681161376707505956807079304988542015446066515923890162744021073123829784752');
+const GX = BigInt('15112221349535400772501151409588531511454012693041857206046113283949847762202');
+const GY = BigInt('46316835694926478169428394003475163141307993866256225615783033603165251855960');
+
+const _0 = BigInt(0);
+const _1 = BigInt(1);
+const _2 = BigInt(2);
+const _8 = BigInt(8);
+
+/** Extended twisted Edwards coordinates (X:Y:Z:T), x = X/Z, y = Y/Z, xy = T/Z */
+type Point = readonly [bigint, bigint, bigint, bigint];
+
+const IDENTITY: Point = [_0, _1, _1, _0];
+const BASE: Point = [GX, GY, _1, mod(GX * GY)];
+
+function mod(a: bigint, m = P): bigint {
+  const r = a % m;
+  return r >= _0 ? r : r + m;
+}
+
+function pow(base: bigint, exp: bigint): bigint {
+  let result = _1;
+  let b = mod(base);
+  let e = exp;
+  while (e > _0) {
+    if (e & _1) result = mod(result * b);
+    b = mod(b * b);
+    e >>= _1;
+  }
+  return result;
+}
+
+function invert(a: bigint): bigint {
+  return pow(a, P - _2);
+}
+
+function add(p: Point, q: Point): Point {
+  const [x1, y1, z1, t1] = p;
+  const [x2, y2, z2, t2] = q;
+  const a = mod((y1 - x1) * (y2 - x2));
+  const b = mod((y1 + x1) * (y2 + x2));
+  const c = mod(t1 * _2 * D * t2);
+  const d = mod(z1 * _2 * z2);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return [mod(e * f), mod(g * h), mod(f * g), mod(e * h)];
+}
+
+function negate([x, y, z, t]: Point): Point {
+  return [mod(-x), y, z, mod(-t)];
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = point;
+  let n = scalar;
+  while (n > _0) {
+    if (n & _1) result = add(result, addend);
+    addend = add(addend, addend);
+    n >>= _1;
+  }
+  return result;
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let n = _0;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    n = (n << _8) | BigInt(bytes[i]);
+  }
+  return n;
+}
+
+function encodePoint([x, y, z]: Point): Uint8Array {
+  const zInv = invert(z);
+  const ax = mod(x * zInv);
+  let ay = mod(y * zInv);
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    out[i] = Number(ay & BigInt(0xff));
+    ay >>= _8;
+  }
+  if (ax & _1) out[31] |= 0x80;
+  return out;
+}
+
+/** RFC 8032 §5.1.3 point decoding; null for encodings that are not on the curve */
+function decodePoint(bytes: Uint8Array): Point | null {
+  const copy = bytes.slice();
+  const sign = (copy[31] & 0x80) !== 0;
+  copy[31] &= 0x7f;
+  const y = bytesToNumberLE(copy);
+  if (y >= P) return null;
+
+  const y2 = mod(y * y);
+  const u = mod(y2 - _1);
+  const v = mod(D * y2 + _1);
+  const v3 = mod(v * v * v);
+  let x = mod(u * v3 * pow(u * v3 * v3 * v, (P - BigInt(5)) / _8));
+  const vx2 = mod(v * x * x);
+  if (vx2 === mod(-u)) {
+    x = mod(x * SQRT_M1);
+  } else if (vx2 !== u) {
+    return null;
+  }
+  if (x === _0 && sign) return null;
+  if ((x & _1) !== (sign ? _1 : _0)) x = mod(-x);
+  return [x, y, _1, mod(x * y)];
+}
+
+/**
+ * Pure-JS RFC 8032 verification (cofactorless, like OpenSSL and Web Crypto).
+ */
+export async function verifyEd25519Js(
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  message: Uint8Array
+): Promise<boolean> {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+  const A = decodePoint(publicKey);
+  const R = decodePoint(signature.subarray(0, 32));
+  const S = bytesToNumberLE(signature.subarray(32));
+  if (!A || !R || S >= L) return false;
+
+  const input = new Uint8Array(64 + message.length);
+  input.set(signature.subarray(0, 32));
+  input.set(publicKey, 32);
+  input.set(message, 64);
+  const k = mod(bytesToNumberLE(await sha512(input)), L);
+
+  // [S]B - [k]A must equal R
+  const check = add(multiply(BASE, S), negate(multiply(A, k)));
+  const encoded = encodePoint(check);
+  const expected = signature.subarray(0, 32);
+  return encoded.every((byte, i) => byte === expected[i]);
+}
+
+let webCryptoEd25519: boolean | undefined;
+
+/**
+ * Verify an Ed25519 signature. Uses Web Crypto when it supports Ed25519 and the
+ * pure-JS implementation otherwise. Never throws for bad input — returns false.
+ */
+export async function verifyEd25519(
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  message: Uint8Array
+): Promise<boolean> {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+  if (webCryptoEd25519 !== false && typeof crypto !== 'undefined' && crypto.subtle) {
+    let key: CryptoKey | undefined;
+    try {
+      key = await crypto.subtle.importKey('raw', new Uint8Array(publicKey), { name: 'Ed25519' }, false, ['verify']);
+      webCryptoEd25519 = true;
+    } catch (error) {
+      // NotSupportedError: no Ed25519 in this runtime. Anything else means the key is
+      // not a curve point, which the JS path reports as false.
+      if ((error as { name?: string })?.name === 'NotSupportedError') webCryptoEd25519 = false;
+    }
+    if (key) {
+      return crypto.subtle.verify('Ed25519', key, new Uint8Array(signature), new Uint8Array(message));
+    }
+  }
+  return verifyEd25519Js(publicKey, signature, message);
+}
@@ -0,0 +1,549 @@
+/**
+ * 0xio SDK — Web components (`@0xio/sdk/elements`)
+ *
+ * Framework-agnostic connect UI:
+ *
+ * - `<oxio-wallet-modal>` lists every wallet announced through discovery plus
+ *   the adapters from getAllAdapters(), marks the ones whose detect() finds them
+ *   installed, links the rest to their installUrl, and connects a new
+ *   ZeroXIOWallet through the adapter the user picks.
+ * - `<oxio-connect-button>` opens that modal and, once connected, shows the
+ *   network badge (NetworkInfo.color), formatAddress() and the balance, kept
+ *   current through `wallet.store`.
+ *
+ * ```html
+ * <script type="module">
+ *   import { defineWalletElements } from '@0xio/sdk/elements';
+ *   defineWalletElements();
+ * </script>
+ * <oxio-connect-button app-name="My DApp" network-id="mainnet"></oxio-connect-button>
+ * ```
+ *
+ * Both elements dispatch bubbling, composed `oxio-connect`, `oxio-disconnect`
+ * and `oxio-error` events. Nothing touches the DOM until defineWalletElements()
+ * runs, so importing this module during SSR is safe.
+ */
+
+import {
+  ZeroXIOWallet,
+  ZeroXIOWalletError,
+  ErrorCode,
+  getAllAdapters,
+  watchWallets,
+  formatAddress,
+  formatOCT
+} from '../index';
+import type {
+  ConnectEvent,
+  DiscoveredWallet,
+  SDKConfig,
+  WalletState,
+  WalletTransportAdapter
+} from '../index';
+
+export interface WalletConnectDetail {
+  readonly wallet: ZeroXIOWallet;
+  /** Adapter picked in the modal; absent when a preset `wallet` was connected */
+  readonly adapter?: WalletTransportAdapter;
+  readonly connection: ConnectEvent;
+}
+
+export interface WalletErrorDetail {
+  readonly error: ZeroXIOWalletError;
+  readonly adapter?: WalletTransportAdapter;
+}
+
+/** SDKConfig minus the adapter — the element supplies that */
+export type WalletElementConfig = Omit<SDKConfig, 'adapter'>;
+
+export const WALLET_MODAL_TAG = 'oxio-wallet-modal';
+export const CONNECT_BUTTON_TAG = 'oxio-connect-button';
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Only http(s) and data: image URLs end up in href/src */
+function safeUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  return /^(https?:|data:image\/)/i.test(url) ? escapeHtml(url) : null;
+}
+
+/** NetworkInfo.color goes into a style attribute — accept plain colors only */
+function safeColor(color: string | undefined): string {
+  return color && /^(#[0-9a-f]{3,8}|[a-z]+|rgba?\([\d\s.,%]+\))$/i.test(color) ? color : '#888';
+}
+
+function toWalletError(error: unknown): ZeroXIOWalletError {
+  return error instanceof ZeroXIOWalletError
+    ? error
+    : new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, error instanceof Error ? error.message : 'Connection failed', error);
+}
+
+/**
+ * User-facing text for a failed connection, and whether retrying makes sense.
+ */
+export function describeConnectError(
+  error: ZeroXIOWalletError,
+  walletName = 'The wallet'
+): { message: string; retry: boolean } {
+  switch (error.code) {
+    case ErrorCode.USER_REJECTED:
+      return { message: 'You rejected the connection request.', retry: true };
+    case ErrorCode.WALLET_LOCKED:
+      return { message: `${walletName} is locked. Unlock it and try again.`, retry: true };
+    case ErrorCode.EXTENSION_NOT_FOUND:
+      return { message: `${walletName} did not respond. Check that it is installed and enabled.`, retry: true };
+    case ErrorCode.PERMISSION_DENIED:
+      return { message: `${walletName} refused the requested permissions.`, retry: true };
+    case ErrorCode.RATE_LIMIT_EXCEEDED:
+      return { message: 'Too many requests. Wait a moment and try again.', retry: true };
+    default:
+      return { message: error.message || 'Connection failed.', retry: true };
+  }
+}
+
+/** Config from the element's `config` property, falling back to its attributes */
+function readConfig(element: HTMLElement, config: WalletElementConfig | null): WalletElementConfig {
+  const networkId = element.getAttribute('network-id');
+  return {
+    ...config,
+    appName: config?.appName ?? element.getAttribute('app-name') ?? document.title ?? 'dApp',
+    ...(networkId && !config?.networkId ? { networkId } : {}),
+  };
+}
+
+function emit<T>(element: HTMLElement, type: string, detail: T): void {
+  element.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+}
+
+const STYLES = `
+  :host {
+    --oxio-accent: #6c5ce7;
+    --oxio-bg: #fff;
+    --oxio-fg: #1a1a1a;
+    --oxio-muted: #6b6b6b;
+    --oxio-border: #e3e3e3;
+    --oxio-radius: 12px;
+    font-family: var(--oxio-font, system-ui, sans-serif);
+    color: var(--oxio-fg);
+  }
+  button {
+    font: inherit;
+    cursor: pointer;
+    border-radius: var(--oxio-radius);
+    border: 1px solid var(--oxio-border);
+    background: var(--oxio-bg);
+    color: var(--oxio-fg);
+    padding: 8px 14px;
+  }
+  button.primary { background: var(--oxio-accent); border-color: var(--oxio-accent); color: #fff; }
+  button:disabled { opacity: .6; cursor: default; }
+  .badge { display: inline-flex; align-items: center; gap: 6px; font-size: .85em; }
+  .dot { width: 8px; height: 8px; border-radius: 50%; }
+  .muted { color: var(--oxio-muted); font-size: .85em; }
+  .error { color: #c0392b; font-size: .85em; }
+`;
+
+const MODAL_STYLES = `
+  :host { display: contents; }
+  .backdrop { position: fixed; inset: 0; background: rgba(0,0,0,.45); display: flex; align-items: center; justify-content: center; z-index: 2147483000; }
+  .dialog { background: var(--oxio-bg); border-radius: var(--oxio-radius); width: min(360px, 92vw); padding: 20px; box-shadow: 0 12px 40px rgba(0,0,0,.25); }
+  .header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 12px; }
+  .header h2 { font-size: 1.05em; margin: 0; }
+  .close { border: none; padding: 4px 8px; }
+  ul { list-style: none; margin: 0; padding: 0; display: grid; gap: 8px; }
+  li button, li a.row { width: 100%; display: flex; align-items: center; gap: 10px; text-align: left; box-sizing: border-box; }
+  li a.row { padding: 8px 14px; border: 1px dashed var(--oxio-border); border-radius: var(--oxio-radius); color: inherit; text-decoration: none; }
+  img { width: 24px; height: 24px; border-radius: 6px; }
+  .name { flex: 1; }
+  .status { text-align: center; padding: 12px 0; display: grid; gap: 12px; }
+`;
+
+function createElementClasses() {
+  /**
+   * `<oxio-wallet-modal>` — wallet picker. Set the `open` attribute (or call
+   * open()) to show it. Config comes from the `config` property or the
+   * `app-name` / `network-id` attributes.
+   */
+  class OxioWalletModal extends HTMLElement {
+    static get observedAttributes(): string[] {
+      return ['open'];
+    }
+
+    /** SDK options for the wallet created on connect */
+    config: WalletElementConfig | null = null;
+    /** Adapters to offer (default: discovered wallets, then getAllAdapters()) */
+    adapters: WalletTransportAdapter[] | null = null;
+
+    private root: ShadowRoot;
+    private announced: readonly DiscoveredWallet[] = [];
+    private unwatch: (() => void) | null = null;
+    private view:
+      | { kind: 'list' }
+      | { kind: 'connecting'; adapter: WalletTransportAdapter }
+      | { kind: 'error'; adapter: WalletTransportAdapter; message: string; retry: boolean } = { kind: 'list' };
+    // the connect attempt that may still write to the view
+    private attempt = 0;
+    // aborts the connect request of the current attempt
+    private pending: AbortController | null = null;
+
+    constructor() {
+      super();
+      this.root = this.attachShadow({ mode: 'open' });
+      this.root.addEventListener('click', (event) => this.handleClick(event));
+      this.root.addEventListener('keydown', (event) => {
+        if ((event as KeyboardEvent).key === 'Escape') this.close();
+      });
+    }
+
+    connectedCallback(): void {
+      this.unwatch = watchWallets((wallets) => {
+        this.announced = wallets;
+        if (this.view.kind === 'list') this.render();
+      });
+      this.render();
+    }
+
+    disconnectedCallback(): void {
+      this.unwatch?.();
+      this.unwatch = null;
+    }
+
+    attributeChangedCallback(): void {
+      if (!this.hasAttribute('open')) {
+        this.abandonAttempt();
+        this.view = { kind: 'list' };
+      }
+      this.render();
+    }
+
+    open(): void {
+      this.setAttribute('open', '');
+    }
+
+    close(): void {
+      this.removeAttribute('open');
+    }
+
+    /**
+     * Connect through `adapter`: a new ZeroXIOWallet is created, initialized and
+     * connected. Resolves with the wallet; on failure the modal shows why.
+     */
+    async connectWith(adapter: WalletTransportAdapter): Promise<ZeroXIOWallet | null> {
+      this.abandonAttempt();
+      const attempt = this.attempt;
+      const controller = new AbortController();
+      this.pending = controller;
+      this.view = { kind: 'connecting', adapter };
+      this.render();
+
+      const wallet = new ZeroXIOWallet({ ...readConfig(this, this.config), adapter });
+      try {
+        await wallet.initialize();
+        const connection = await wallet.connect({ signal: controller.signal });
+        if (attempt !== this.attempt) {
+          // closed or superseded meanwhile — the user no longer waits for this one
+          wallet.cleanup();
+          return null;
+        }
+        this.pending = null;
+        const detail: WalletConnectDetail = { wallet, adapter, connection };
+        emit(this, 'oxio-connect', detail);
+        this.close();
+        return wallet;
+      } catch (e) {
+        wallet.cleanup();
+        // an abandoned attempt fails with ABORTED; nobody is waiting for that error
+        if (attempt !== this.attempt) return null;
+        this.pending = null;
+        const error = toWalletError(e);
+        this.view = { kind: 'error', adapter, ...describeConnectError(error, adapter.displayName) };
+        this.render();
+        const detail: WalletErrorDetail = { error, adapter };
+        emit(this, 'oxio-error', detail);
+        return null;
+      }
+    }
+
+    /** Stop the in-flight connect attempt: its result is dropped and its wallet cleaned up */
+    private abandonAttempt(): void {
+      ++this.attempt;
+      this.pending?.abort();
+      this.pending = null;
+    }
+
+    private listAdapters(): WalletTransportAdapter[] {
+      if (this.adapters) return this.adapters;
+      const announcedRdns = new Set(this.announced.map((wallet) => wallet.info.rdns));
+      const windowProvider = (window as any).octra;
+      // the generic window.octra adapter would duplicate the announced wallet that injected it
+      const windowProviderAnnounced = this.announced.some((wallet) => wallet.provider === windowProvider);
+      const registered = getAllAdapters().filter((adapter) =>
+        // headless adapters (mock, local signer) are for scripts and tests, not pickers
+        !adapter.headless &&
+        !(adapter.rdns && announcedRdns.has(adapter.rdns)) &&
+        !(adapter.name === 'octra-provider' && windowProviderAnnounced)
+      );
+      return [...this.announced.map((wallet) => wallet.adapter), ...registered];
+    }
+
+    private handleClick(event: Event): void {
+      const target = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      if (!target) {
+        if ((event.target as HTMLElement).classList?.contains('backdrop')) this.close();
+        return;
+      }
+      const adapters = this.listAdapters();
+      switch (target.dataset.action) {
+        case 'close':
+          this.close();
+          break;
+        case 'back':
+          this.abandonAttempt();
+          this.view = { kind: 'list' };
+          this.render();
+          break;
+        case 'connect': {
+          const adapter = adapters.find((a) => a.name === target.dataset.adapter);
+          if (adapter) void this.connectWith(adapter);
+          break;
+        }
+        case 'retry':
+          if (this.view.kind === 'error') void this.connectWith(this.view.adapter);
+          break;
+      }
+    }
+
+    private render(): void {
+      if (!this.hasAttribute('open')) {
+        this.root.innerHTML = `<style>${STYLES}${MODAL_STYLES}</style>`;
+        return;
+      }
+
+      let body: string;
+      if (this.view.kind === 'connecting') {
+        const name = escapeHtml(this.view.adapter.displayName);
+        body = `
+          <div class="status">
+            <div>Connecting to ${name}…</div>
+            <div class="muted">Approve the request in ${name}.</div>
+            <button data-action="back">Cancel</button>
+          </div>`;
+      } else if (this.view.kind === 'error') {
+        const install = safeUrl(this.view.adapter.installUrl);
+        body = `
+          <div class="status">
+            <div class="error" role="alert">${escapeHtml(this.view.message)}</div>
+            ${this.view.retry ? '<button class="primary" data-action="retry">Try again</button>' : ''}
+            ${install ? `<a href="${install}" target="_blank" rel="noopener noreferrer" class="muted">Install ${escapeHtml(this.view.adapter.displayName)}</a>` : ''}
+            <button data-action="back">Choose another wallet</button>
+          </div>`;
+      } else {
+        const items = this.listAdapters().map((adapter) => {
+          const name = escapeHtml(adapter.displayName);
+          const icon = safeUrl(adapter.icon);
+          const iconHtml = icon ? `<img src="${icon}" alt="">` : '';
+          let installed = false;
+          try {
+            installed = adapter.detect();
+          } catch {
+            // a throwing detect() counts as not installed
+          }
+          if (installed) {
+            return `<li><button data-action="connect" data-adapter="${escapeHtml(adapter.name)}">${iconHtml}<span class="name">${name}</span><span class="muted">Installed</span></button></li>`;
+          }
+          const install = safeUrl(adapter.installUrl);
+          return install
+            ? `<li><a class="row" href="${install}" target="_blank" rel="noopener noreferrer">${iconHtml}<span class="name">${name}</span><span class="muted">Install</span></a></li>`
+            : `<li><button disabled>${iconHtml}<span class="name">${name}</span><span class="muted">Not detected</span></button></li>`;
+        });
+        body = items.length > 0 ? `<ul>${items.join('')}</ul>` : '<div class="muted">No wallets available.</div>';
+      }
+
+      this.root.innerHTML = `
+        <style>${STYLES}${MODAL_STYLES}</style>
+        <div class="backdrop" part="backdrop">
+          <div class="dialog" part="dialog" role="dialog" aria-modal="true" aria-label="Connect a wallet">
+            <div class="header">
+              <h2>Connect a wallet</h2>
+              <button class="close" data-action="close" aria-label="Close">✕</button>
+            </div>
+            ${body}
+          </div>
+        </div>`;
+    }
+  }
+
+  /**
+   * `<oxio-connect-button>` — connect button that turns into an account chip.
+   * Without a `wallet` property it opens a `<oxio-wallet-modal>` and owns the
+   * wallet the user connects (cleanup() on disconnect or removal). With a
+   * `wallet` property it connects that wallet directly and leaves its lifecycle
+   * to the caller.
+   */
+  class OxioConnectButton extends HTMLElement {
+    config: WalletElementConfig | null = null;
+    adapters: WalletTransportAdapter[] | null = null;
+
+    private root: ShadowRoot;
+    private _wallet: ZeroXIOWallet | null = null;
+    private owned = false;
+    private unsubscribe: (() => void) | null = null;
+    private busy = false;
+    private errorMessage: string | null = null;
+
+    constructor() {
+      super();
+      this.root = this.attachShadow({ mode: 'open' });
+      this.root.addEventListener('click', (event) => this.handleClick(event));
+      this.root.addEventListener('oxio-connect', (event) => {
+        const { wallet } = (event as CustomEvent<WalletConnectDetail>).detail;
+        this.adopt(wallet, true);
+      });
+    }
+
+    /** The connected (or supplied) wallet; null before the first connection */
+    get wallet(): ZeroXIOWallet | null {
+      return this._wallet;
+    }
+
+    set wallet(wallet: ZeroXIOWallet | null) {
+      this.adopt(wallet, false);
+    }
+
+    connectedCallback(): void {
+      this.watch();
+      this.render();
+    }
+
+    disconnectedCallback(): void {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+      // moving the element re-attaches it in the same task; only clean up if it stays detached
+      queueMicrotask(() => {
+        if (!this.isConnected && this.owned && this._wallet) {
+          this._wallet.cleanup();
+          this._wallet = null;
+          this.owned = false;
+        }
+      });
+    }
+
+    private adopt(wallet: ZeroXIOWallet | null, owned: boolean): void {
+      if (wallet === this._wallet) return;
+      if (this.owned && this._wallet) this._wallet.cleanup();
+      this._wallet = wallet;
+      this.owned = owned && !!wallet;
+      this.errorMessage = null;
+      this.watch();
+      this.render();
+    }
+
+    private watch(): void {
+      this.unsubscribe?.();
+      this.unsubscribe = this._wallet && this.isConnected
+        ? this._wallet.store.subscribe(() => this.render())
+        : null;
+    }
+
+    private async handleClick(event: Event): Promise<void> {
+      const target = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      if (!target) return;
+
+      if (target.dataset.action === 'connect') {
+        if (!this._wallet) {
+          this.openModal();
+        } else {
+          await this.run(async () => {
+            await this._wallet!.initialize();
+            const connection = await this._wallet!.connect();
+            const detail: WalletConnectDetail = { wallet: this._wallet!, connection };
+            emit(this, 'oxio-connect', detail);
+          });
+        }
+      } else if (target.dataset.action === 'disconnect' && this._wallet) {
+        const wallet = this._wallet;
+        await this.run(async () => {
+          await wallet.disconnect();
+          if (this.owned) this.adopt(null, false);
+          emit(this, 'oxio-disconnect', { wallet });
+        });
+      }
+    }
+
+    private openModal(): void {
+      const modal = this.root.querySelector(WALLET_MODAL_TAG) as InstanceType<typeof OxioWalletModal> | null;
+      if (!modal) return;
+      modal.config = readConfig(this, this.config);
+      modal.adapters = this.adapters;
+      modal.open();
+    }
+
+    private async run(action: () => Promise<void>): Promise<void> {
+      this.busy = true;
+      this.errorMessage = null;
+      this.render();
+      try {
+        await action();
+      } catch (e) {
+        const error = toWalletError(e);
+        this.errorMessage = describeConnectError(error).message;
+        const detail: WalletErrorDetail = { error };
+        emit(this, 'oxio-error', detail);
+      } finally {
+        this.busy = false;
+        this.render();
+      }
+    }
+
+    private render(): void {
+      const state: WalletState | null = this._wallet?.store.getState() ?? null;
+      const disabled = this.busy ? ' disabled' : '';
+
+      let content: string;
+      if (state?.isConnected && state.address) {
+        const network = state.network;
+        const balance = state.balance;
+        content = `
+          <span class="badge" part="network">
+            <span class="dot" style="background:${safeColor(network?.color)}"></span>${escapeHtml(network?.name ?? 'Unknown network')}
+          </span>
+          <span part="address" title="${escapeHtml(state.address)}">${escapeHtml(formatAddress(state.address))}</span>
+          ${balance ? `<span part="balance">${escapeHtml(formatOCT(balance.exact?.total ?? balance.total))} OCT</span>` : ''}
+          <button data-action="disconnect"${disabled}>Disconnect</button>`;
+      } else if (state?.isLocked) {
+        content = `
+          <span class="muted">Wallet locked</span>
+          <button class="primary" data-action="connect"${disabled}>Unlock &amp; connect</button>`;
+      } else {
+        content = `<button class="primary" data-action="connect" part="button"${disabled}>${this.busy ? 'Connecting…' : 'Connect Wallet'}</button>`;
+      }
+
+      // keep the modal element (and its state) across re-renders
+      let modal = this.root.querySelector(WALLET_MODAL_TAG);
+      if (!modal) {
+        this.root.innerHTML = `<style>${STYLES} .bar { display: inline-flex; align-items: center; gap: 10px; }</style><span class="bar" part="bar"></span>`;
+        modal = document.createElement(WALLET_MODAL_TAG);
+        this.root.appendChild(modal);
+      }
+      this.root.querySelector('.bar')!.innerHTML = content +
+        (this.errorMessage ? `<span class="error" role="alert">${escapeHtml(this.errorMessage)}</span>` : '');
+    }
+  }
+
+  return { OxioWalletModal, OxioConnectButton };
+}
+
+/**
+ * Register `<oxio-wallet-modal>` and `<oxio-connect-button>`. Safe to call more
+ * than once, and a no-op where custom elements are unavailable (SSR, workers).
+ */
+export function defineWalletElements(): void {
+  if (typeof window === 'undefined' || typeof customElements === 'undefined') return;
+  if (customElements.get(WALLET_MODAL_TAG) && customElements.get(CONNECT_BUTTON_TAG)) return;
+
+  const { OxioWalletModal, OxioConnectButton } = createElementClasses();
+  if (!customElements.get(WALLET_MODAL_TAG)) customElements.define(WALLET_MODAL_TAG, OxioWalletModal);
+  if (!customElements.get(CONNECT_BUTTON_TAG)) customElements.define(CONNECT_BUTTON_TAG, OxioConnectButton);
+}
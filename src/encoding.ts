@@ -0,0 +1,172 @@
+/**
+ * 0xio SDK — Contract parameter encoding
+ *
+ * Converts rich argument values into the flat JSON primitives AML expects, and
+ * decodes view results back:
+ *
+ * - `bigint` → JSON number when it fits in a safe integer, decimal string otherwise
+ * - `Uint8Array` / `ArrayBuffer` / any ArrayBufferView → base64 string
+ * - `Address` → validated oct-prefixed string
+ *
+ * The serialized params are capped at 64 KB; the error lists the size of every
+ * argument so the oversized one is obvious.
+ */
+
+import { ContractParam, ErrorCode, ZeroXIOWalletError } from './types';
+import { isValidAddress, bytesToBase64, base64ToBytes } from './utils';
+
+/** An Octra address that has passed isValidAddress() */
+export type Address = string & { readonly __octraAddress: true };
+
+/** What actually crosses the bridge / RPC for one argument */
+export type WireContractParam = string | number | boolean;
+
+export interface EncodedContractParams {
+  readonly params: WireContractParam[];
+  /** UTF-8 size of the serialized params array */
+  readonly size: number;
+  /** UTF-8 size of each serialized argument, in argument order */
+  readonly sizes: number[];
+}
+
+/** Maximum serialized size of a params array, in bytes */
+export const MAX_CONTRACT_PARAMS_BYTES = 65536;
+
+const BASE64_RE = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Uint8Array) return 'Uint8Array';
+  if (value instanceof ArrayBuffer) return 'ArrayBuffer';
+  if (ArrayBuffer.isView(value)) return value.constructor?.name ?? 'ArrayBufferView';
+  return typeof value;
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/**
+ * Validate and brand an address. Throws INVALID_ADDRESS.
+ */
+export function toAddress(value: string): Address {
+  if (!isValidAddress(value)) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, `Invalid Octra address: ${String(value)}`);
+  }
+  return value as Address;
+}
+
+export function isAddress(value: unknown): value is Address {
+  return typeof value === 'string' && isValidAddress(value);
+}
+
+/**
+ * True for a standard (padded) base64 string.
+ * @internal shared with contract bindings
+ */
+export function isBase64(value: unknown): value is string {
+  return typeof value === 'string' && BASE64_RE.test(value);
+}
+
+/**
+ * Encode one argument to its wire form. Throws INVALID_PARAMS for unsupported
+ * values and for integers that have already lost precision as JS numbers.
+ */
+export function encodeContractParam(value: ContractParam, index = 0): WireContractParam {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value;
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, `Argument ${index} is not a finite number`, { index });
+      }
+      if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+        throw new ZeroXIOWalletError(
+          ErrorCode.INVALID_PARAMS,
+          `Argument ${index} (${value}) exceeds Number.MAX_SAFE_INTEGER and has lost precision — pass a bigint`,
+          { index }
+        );
+      }
+      return value;
+    case 'bigint':
+      return value <= MAX_SAFE && value >= -MAX_SAFE ? Number(value) : value.toString();
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return bytesToBase64(toBytes(value));
+  }
+
+  throw new ZeroXIOWalletError(
+    ErrorCode.INVALID_PARAMS,
+    `Argument ${index} has unsupported type ${typeName(value)}`,
+    { index, type: typeName(value) }
+  );
+}
+
+/**
+ * Encode a flat params array and enforce the 64 KB serialized cap.
+ */
+export function encodeContractParams(params: readonly ContractParam[] | undefined): EncodedContractParams {
+  if (params === undefined) {
+    return { params: [], size: 2, sizes: [] };
+  }
+  if (!Array.isArray(params)) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, 'Contract params must be a flat array');
+  }
+
+  const wire = params.map((value, i) => encodeContractParam(value, i));
+  const sizes = wire.map((value) => utf8Length(JSON.stringify(value)));
+  // brackets + commas between arguments
+  const size = 2 + sizes.reduce((sum, n) => sum + n, 0) + Math.max(0, sizes.length - 1);
+
+  if (size > MAX_CONTRACT_PARAMS_BYTES) {
+    const breakdown = sizes
+      .map((bytes, index) => ({ index, type: typeName(params[index]), bytes }))
+      .sort((a, b) => b.bytes - a.bytes);
+    const largest = breakdown
+      .slice(0, 3)
+      .map((a) => `#${a.index} (${a.type}) ${a.bytes} bytes`)
+      .join(', ');
+    throw new ZeroXIOWalletError(
+      ErrorCode.INVALID_PARAMS,
+      `Contract params too large: ${size} bytes (max ${MAX_CONTRACT_PARAMS_BYTES}). Largest arguments: ${largest}`,
+      { size, limit: MAX_CONTRACT_PARAMS_BYTES, arguments: breakdown }
+    );
+  }
+
+  return { params: wire, size, sizes };
+}
+
+function decodeError(type: string, raw: unknown): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, `Value is not a valid ${type}`, { result: raw });
+}
+
+/** Decode an integer result (number or decimal string) without precision loss */
+export function decodeBigInt(raw: unknown): bigint {
+  if (typeof raw === 'bigint') return raw;
+  if (typeof raw === 'number' && Number.isSafeInteger(raw)) return BigInt(raw);
+  if (typeof raw === 'string' && /^-?\d+$/.test(raw.trim())) return BigInt(raw.trim());
+  throw decodeError('integer', raw);
+}
+
+/** Decode a base64 result into bytes */
+export function decodeBytes(raw: unknown): Uint8Array {
+  if (raw instanceof Uint8Array) return raw;
+  if (isBase64(raw)) return base64ToBytes(raw);
+  throw decodeError('base64 byte string', raw);
+}
+
+/** Decode and validate an address result */
+export function decodeAddress(raw: unknown): Address {
+  if (isAddress(raw)) return raw;
+  throw decodeError('address', raw);
+}
@@ -1,77 +1,256 @@
-import { WalletEvent, WalletEventType } from './types';
+import { ErrorCode, WalletEvent, WalletEventMap, WalletEventType, ZeroXIOWalletError } from './types';
 
-export type EventListener<T = any> = (event: WalletEvent<T>) => void;
+export type EventListener<T = any, K extends WalletEventType = WalletEventType> = (event: WalletEvent<T, K>) => void;
 
-export class EventEmitter {
-  private listeners = new Map<WalletEventType, Set<EventListener>>();
+/** Listener for event `K` of map `M` — `event.data` is `M[K]` */
+export type WalletEventListener<
+  K extends keyof M & WalletEventType,
+  M extends EventMapBase = WalletEventMap
+> = EventListener<M[K], K>;
+
+/** Event maps may only use wallet event names */
+export type EventMapBase = { [K in WalletEventType]?: unknown };
+
+/** Any event of map `M` — narrow it with `event.type` */
+export type WildcardEvent<M extends EventMapBase = WalletEventMap> = {
+  [K in keyof M & WalletEventType]: WalletEvent<M[K], K>
+}[keyof M & WalletEventType];
+
+/** Listener registered with `'*'` — called for every event after its own listeners */
+export type WildcardListener<M extends EventMapBase = WalletEventMap> = (event: WildcardEvent<M>) => void;
+
+export interface EventStreamOptions {
+  /** Ends the stream when aborted */
+  readonly signal?: AbortSignal;
+}
+
+type EventKey<M> = keyof M & WalletEventType;
+
+export class EventEmitter<M extends EventMapBase = WalletEventMap> {
+  private listeners = new Map<EventKey<M>, Set<EventListener>>();
+  private wildcardListeners = new Set<EventListener>();
+  // open events() streams and waitFor() calls, closed by removeAllListeners()
+  private subscriptions = new Set<{ eventType: EventKey<M> | '*'; close: () => void }>();
 
   constructor(_debug = false) {}
 
-  on<T = any>(eventType: WalletEventType, listener: EventListener<T>): void {
-    if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set());
-    }
-    this.listeners.get(eventType)!.add(listener);
+  on<K extends EventKey<M>>(eventType: K, listener: WalletEventListener<K, M>): void;
+  on(eventType: '*', listener: WildcardListener<M>): void;
+  on(eventType: EventKey<M> | '*', listener: (event: any) => void): void {
+    this.addListener(eventType, listener);
   }
 
-  off<T = any>(eventType: WalletEventType, listener: EventListener<T>): void {
-    const eventListeners = this.listeners.get(eventType);
-    if (eventListeners) {
-      eventListeners.delete(listener);
-      if (eventListeners.size === 0) {
-        this.listeners.delete(eventType);
-      }
-    }
+  off<K extends EventKey<M>>(eventType: K, listener: WalletEventListener<K, M>): void;
+  off(eventType: '*', listener: WildcardListener<M>): void;
+  off(eventType: EventKey<M> | '*', listener: (event: any) => void): void {
+    this.removeListener(eventType, listener);
   }
 
-  once<T = any>(eventType: WalletEventType, listener: EventListener<T>): void {
-    const onceListener: EventListener<T> = (event) => {
+  once<K extends EventKey<M>>(eventType: K, listener: WalletEventListener<K, M>): void;
+  once(eventType: '*', listener: WildcardListener<M>): void;
+  once(eventType: EventKey<M> | '*', listener: (event: any) => void): void {
+    const onceListener: EventListener = (event) => {
       // Remove BEFORE calling so a throwing listener doesn't stay registered
-      this.off(eventType, onceListener);
+      this.removeListener(eventType, onceListener);
       listener(event);
     };
 
-    this.on(eventType, onceListener);
+    this.addListener(eventType, onceListener);
   }
 
-  emit<T = any>(eventType: WalletEventType, data: T): void {
-    const event: WalletEvent<T> = {
+  emit<K extends EventKey<M>>(eventType: K, data: M[K]): void {
+    const event: WalletEvent<M[K], K> = {
       type: eventType,
       data,
       timestamp: Date.now()
     };
 
     const eventListeners = this.listeners.get(eventType);
-    if (eventListeners && eventListeners.size > 0) {
-      // snapshot to avoid issues if listeners modify the set during iteration
-      for (const listener of Array.from(eventListeners)) {
+    // snapshot to avoid issues if listeners modify the set during iteration
+    const targets = [
+      ...(eventListeners ? Array.from(eventListeners) : []),
+      ...Array.from(this.wildcardListeners)
+    ];
+    for (const listener of targets) {
+      try {
+        listener(event);
+      } catch {
+        // listener errors are swallowed to keep the event loop running
+      }
+    }
+  }
+
+  /**
+   * Async iterator over events of `eventType` (or every event for `'*'`).
+   * Listening starts immediately and events are buffered until read.
+   * The stream ends when the loop exits (`break` / `return`), when
+   * `options.signal` aborts, or when removeAllListeners() runs.
+   *
+   * @example
+   * for await (const event of wallet.events('*', { signal })) {
+   *   log(event.type, event.data);
+   * }
+   */
+  events<K extends EventKey<M>>(eventType: K, options?: EventStreamOptions): AsyncIterableIterator<WalletEvent<M[K], K>>;
+  events(eventType: '*', options?: EventStreamOptions): AsyncIterableIterator<WildcardEvent<M>>;
+  events(eventType: EventKey<M> | '*', options: EventStreamOptions = {}): AsyncIterableIterator<WalletEvent> {
+    const { signal } = options;
+    const queue: WalletEvent[] = [];
+    const waiting: ((result: IteratorResult<WalletEvent>) => void)[] = [];
+    let done = false;
+
+    const listener: EventListener = (event) => {
+      const resolve = waiting.shift();
+      if (resolve) resolve({ value: event, done: false });
+      else queue.push(event);
+    };
+    const subscription = { eventType, close: () => finish() };
+    const finish = () => {
+      if (done) return;
+      done = true;
+      queue.length = 0;
+      this.removeListener(eventType, listener);
+      this.subscriptions.delete(subscription);
+      signal?.removeEventListener('abort', finish);
+      for (const resolve of waiting.splice(0)) resolve({ value: undefined, done: true });
+    };
+
+    if (signal?.aborted) {
+      done = true;
+    } else {
+      this.addListener(eventType, listener);
+      this.subscriptions.add(subscription);
+      signal?.addEventListener('abort', finish);
+    }
+
+    return {
+      next: () => {
+        if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => {
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      }
+    };
+  }
+
+  /**
+   * Resolve with the next event of `eventType` (or any event for `'*'`) that
+   * satisfies `predicate`. Rejects with NETWORK_ERROR after `timeout` ms (no
+   * limit when omitted), with UNKNOWN_ERROR if removeAllListeners() runs
+   * first, and with the predicate's own error if it throws.
+   *
+   * @example
+   * const { data } = await wallet.waitFor('transactionConfirmed', (e) => e.data.txHash === hash, 60000);
+   */
+  waitFor<K extends EventKey<M>>(
+    eventType: K,
+    predicate?: (event: WalletEvent<M[K], K>) => boolean,
+    timeout?: number
+  ): Promise<WalletEvent<M[K], K>>;
+  waitFor(eventType: '*', predicate?: (event: WildcardEvent<M>) => boolean, timeout?: number): Promise<WildcardEvent<M>>;
+  waitFor(eventType: EventKey<M> | '*', predicate?: (event: any) => boolean, timeout?: number): Promise<WalletEvent> {
+    return new Promise<WalletEvent>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const stop = () => {
+        if (timer) clearTimeout(timer);
+        this.removeListener(eventType, listener);
+        this.subscriptions.delete(subscription);
+      };
+      const fail = (error: unknown) => {
+        stop();
+        reject(error);
+      };
+      const listener: EventListener = (event) => {
+        let matched: boolean;
         try {
-          listener(event);
-        } catch {
-          // listener errors are swallowed to keep the event loop running
+          matched = !predicate || predicate(event);
+        } catch (error) {
+          fail(error);
+          return;
+        }
+        if (matched) {
+          stop();
+          resolve(event);
         }
+      };
+      const subscription = {
+        eventType,
+        close: () => fail(new ZeroXIOWalletError(
+          ErrorCode.UNKNOWN_ERROR,
+          `Stopped waiting for "${eventType}": listeners were removed`,
+          { eventType }
+        ))
+      };
+
+      this.addListener(eventType, listener);
+      this.subscriptions.add(subscription);
+      if (timeout !== undefined) {
+        timer = setTimeout(() => fail(new ZeroXIOWalletError(
+          ErrorCode.NETWORK_ERROR,
+          `Timed out after ${timeout}ms waiting for "${eventType}"`,
+          { eventType, timeout }
+        )), timeout);
       }
-    }
+    });
   }
 
-  removeAllListeners(eventType?: WalletEventType): void {
-    if (eventType) {
+  removeAllListeners(eventType?: EventKey<M> | '*'): void {
+    for (const subscription of Array.from(this.subscriptions)) {
+      if (!eventType || subscription.eventType === eventType) subscription.close();
+    }
+    if (eventType === '*') {
+      this.wildcardListeners.clear();
+    } else if (eventType) {
       this.listeners.delete(eventType);
     } else {
       this.listeners.clear();
+      this.wildcardListeners.clear();
     }
   }
 
-  listenerCount(eventType: WalletEventType): number {
+  listenerCount(eventType: EventKey<M> | '*'): number {
+    if (eventType === '*') return this.wildcardListeners.size;
     const eventListeners = this.listeners.get(eventType);
     return eventListeners ? eventListeners.size : 0;
   }
 
-  eventTypes(): WalletEventType[] {
+  eventTypes(): EventKey<M>[] {
     return Array.from(this.listeners.keys());
   }
 
-  hasListeners(eventType: WalletEventType): boolean {
+  hasListeners(eventType: EventKey<M> | '*'): boolean {
     return this.listenerCount(eventType) > 0;
   }
-}
\ No newline at end of file
+
+  private addListener(eventType: EventKey<M> | '*', listener: EventListener): void {
+    if (eventType === '*') {
+      this.wildcardListeners.add(listener);
+      return;
+    }
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, new Set());
+    }
+    this.listeners.get(eventType)!.add(listener);
+  }
+
+  private removeListener(eventType: EventKey<M> | '*', listener: EventListener): void {
+    if (eventType === '*') {
+      this.wildcardListeners.delete(listener);
+      return;
+    }
+    const eventListeners = this.listeners.get(eventType);
+    if (eventListeners) {
+      eventListeners.delete(listener);
+      if (eventListeners.size === 0) {
+        this.listeners.delete(eventType);
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { sha256, sha512 } from './hash';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+const ABC_448 = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+const ABC_896 =
+  'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu';
+
+// FIPS 180-2 appendix examples
+const SHA256_VECTORS: [string, string][] = [
+  ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+  ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  [ABC_448, '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+];
+
+const SHA512_VECTORS: [string, string][] = [
+  ['', 'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e'],
+  ['abc', 'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'],
+  [ABC_448, '204a8fc6dda82f0a0ced7beb8e08a41657c16ef468b228a8279be331a703c33596fd15c13b1b07f9aa1d3bea57789ca031ad85c7a71dd70354ec631238ca3445'],
+  [ABC_896, '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909'],
+];
+
+// lengths around the padding boundaries of both block sizes
+const BOUNDARY_LENGTHS = [55, 56, 63, 64, 111, 112, 127, 128, 1000];
+
+describe.each([
+  ['Web Crypto', false],
+  ['JS fallback', true],
+])('hash (%s)', (_label, forceFallback) => {
+  beforeEach(() => {
+    if (forceFallback) {
+      jest.spyOn(crypto.subtle, 'digest').mockRejectedValue(new Error('digest unavailable'));
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(SHA256_VECTORS)('sha256(%j)', async (input, expected) => {
+    expect(hex(await sha256(utf8(input)))).toBe(expected);
+  });
+
+  it.each(SHA512_VECTORS)('sha512(%j)', async (input, expected) => {
+    expect(hex(await sha512(utf8(input)))).toBe(expected);
+  });
+
+  it.each(BOUNDARY_LENGTHS)('matches node:crypto for %i bytes', async (length) => {
+    const data = new Uint8Array(length).map((_, i) => (i * 31 + 7) & 0xff);
+    expect(hex(await sha256(data))).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(hex(await sha512(data))).toBe(createHash('sha512').update(data).digest('hex'));
+  });
+});
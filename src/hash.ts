@@ -0,0 +1,190 @@
+/**
+ * 0xio SDK — SHA-256 / SHA-512
+ *
+ * Digests go through crypto.subtle when it exists and fall back to plain JS
+ * implementations (FIPS 180-4) otherwise — crypto.subtle is missing in insecure
+ * (http) browser contexts, where address derivation and signature verification
+ * still have to work.
+ *
+ * @internal
+ */
+
+// ─── SHA-256 ─────────────────────────────────────────────────────────────────
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_IV = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+function sha256Js(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const h = SHA256_IV.slice();
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + SHA256_K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((v, i) => { h[i] = (h[i] + v) | 0; });
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word >>> 0));
+  return out;
+}
+
+export async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    try {
+      return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    } catch {
+      // fall back to the JS implementation
+    }
+  }
+  return sha256Js(data);
+}
+
+// ─── SHA-512 ─────────────────────────────────────────────────────────────────
+
+const _0 = BigInt(0);
+const _1 = BigInt(1);
+const _8 = BigInt(8);
+
+const SHA512_K = [
+  '428a2f98d728ae22', '7137449123ef65cd', 'b5c0fbcfec4d3b2f', 'e9b5dba58189dbbc',
+  '3956c25bf348b538', '59f111f1b605d019', '923f82a4af194f9b', 'ab1c5ed5da6d8118',
+  'd807aa98a3030242', '12835b0145706fbe', '243185be4ee4b28c', '550c7dc3d5ffb4e2',
+  '72be5d74f27b896f', '80deb1fe3b1696b1', '9bdc06a725c71235', 'c19bf174cf692694',
+  'e49b69c19ef14ad2', 'efbe4786384f25e3', '0fc19dc68b8cd5b5', '240ca1cc77ac9c65',
+  '2de92c6f592b0275', '4a7484aa6ea6e483', '5cb0a9dcbd41fbd4', '76f988da831153b5',
+  '983e5152ee66dfab', 'a831c66d2db43210', 'b00327c898fb213f', 'bf597fc7beef0ee4',
+  'c6e00bf33da88fc2', 'd5a79147930aa725', '06ca6351e003826f', '142929670a0e6e70',
+  '27b70a8546d22ffc', '2e1b21385c26c926', '4d2c6dfc5ac42aed', '53380d139d95b3df',
+  '650a73548baf63de', '766a0abb3c77b2a8', '81c2c92e47edaee6', '92722c851482353b',
+  'a2bfe8a14cf10364', 'a81a664bbc423001', 'c24b8b70d0f89791', 'c76c51a30654be30',
+  'd192e819d6ef5218', 'd69906245565a910', 'f40e35855771202a', '106aa07032bbd1b8',
+  '19a4c116b8d2d0c8', '1e376c085141ab53', '2748774cdf8eeb99', '34b0bcb5e19b48a8',
+  '391c0cb3c5c95a63', '4ed8aa4ae3418acb', '5b9cca4f7763e373', '682e6ff3d6b2b8a3',
+  '748f82ee5defb2fc', '78a5636f43172f60', '84c87814a1f0ab72', '8cc702081a6439ec',
+  '90befffa23631e28', 'a4506cebde82bde9', 'bef9a3f7b2c67915', 'c67178f2e372532b',
+  'ca273eceea26619c', 'd186b8c721c0c207', 'eada7dd6cde0eb1e', 'f57d4f7fee6ed178',
+  '06f067aa72176fba', '0a637dc5a2c898a6', '113f9804bef90dae', '1b710b35131c471b',
+  '28db77f523047d84', '32caab7b40c72493', '3c9ebe0a15c9bebc', '431d67c49c100d4c',
+  '4cc5d4becb3e42b6', '597f299cfc657e2a', '5fcb6fab3ad6faec', '6c44198c4a475817',
+].map((h) => BigInt('0x' + h));
+
+const SHA512_IV = [
+  '6a09e667f3bcc908', 'bb67ae8584caa73b', '3c6ef372fe94f82b', 'a54ff53a5f1d36f1',
+  '510e527fade682d1', '9b05688c2b3e6c1f', '1f83d9abfb41bd6b', '5be0cd19137e2179',
+].map((h) => BigInt('0x' + h));
+
+const MASK64 = (_1 << BigInt(64)) - _1;
+
+function rotr(x: bigint, n: bigint): bigint {
+  return ((x >> n) | (x << (BigInt(64) - n))) & MASK64;
+}
+
+function sha512Js(data: Uint8Array): Uint8Array {
+  const bitLength = BigInt(data.length) * _8;
+  const padded = new Uint8Array(Math.ceil((data.length + 17) / 128) * 128);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  let len = bitLength;
+  for (let i = padded.length - 1; len > _0; i--) {
+    padded[i] = Number(len & BigInt(0xff));
+    len >>= _8;
+  }
+
+  const h = SHA512_IV.slice();
+  const w = new Array<bigint>(80);
+  for (let offset = 0; offset < padded.length; offset += 128) {
+    for (let i = 0; i < 16; i++) {
+      let word = _0;
+      for (let j = 0; j < 8; j++) word = (word << _8) | BigInt(padded[offset + i * 8 + j]);
+      w[i] = word;
+    }
+    for (let i = 16; i < 80; i++) {
+      const s0 = rotr(w[i - 15], BigInt(1)) ^ rotr(w[i - 15], BigInt(8)) ^ (w[i - 15] >> BigInt(7));
+      const s1 = rotr(w[i - 2], BigInt(19)) ^ rotr(w[i - 2], BigInt(61)) ^ (w[i - 2] >> BigInt(6));
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) & MASK64;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 80; i++) {
+      const S1 = rotr(e, BigInt(14)) ^ rotr(e, BigInt(18)) ^ rotr(e, BigInt(41));
+      const ch = (e & f) ^ (~e & MASK64 & g);
+      const t1 = (hh + S1 + ch + SHA512_K[i] + w[i]) & MASK64;
+      const S0 = rotr(a, BigInt(28)) ^ rotr(a, BigInt(34)) ^ rotr(a, BigInt(39));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) & MASK64;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) & MASK64;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) & MASK64;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((v, i) => { h[i] = (h[i] + v) & MASK64; });
+  }
+
+  const out = new Uint8Array(64);
+  h.forEach((word, i) => {
+    for (let j = 7; j >= 0; j--) {
+      out[i * 8 + j] = Number(word & BigInt(0xff));
+      word >>= _8;
+    }
+  });
+  return out;
+}
+
+export async function sha512(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    try {
+      return new Uint8Array(await crypto.subtle.digest('SHA-512', data));
+    } catch {
+      // fall back to the JS implementation
+    }
+  }
+  return sha512Js(data);
+}
@@ -26,14 +26,58 @@
 // Main exports
 export { ZeroXIOWallet } from './wallet';
 export { EventEmitter } from './events';
+export type { WalletEventListener, EventMapBase, WildcardEvent, WildcardListener, EventStreamOptions } from './events';
 export { ExtensionCommunicator } from './communication';
+export type { SendRequestOptions, BridgeEventMap } from './communication';
+export { OctraRpcClient, mapRpcError, normalizeTransaction, normalizeBatchResults, normalizeSimulation } from './rpc';
+export type { OctraRpcClientOptions, AccountInfo } from './rpc';
+export { TransactionTracker } from './tracker';
+export type {
+  TransactionProgressEvent,
+  TransactionProgressListener,
+  TransactionLookup,
+  WaitForTransactionOptions
+} from './tracker';
 
 // Adapter exports — implement WalletTransportAdapter to add new wallet support
 export type { WalletTransportAdapter, AdapterRequest, AdapterIncomingMessage } from './adapter';
 export { ZeroXIOAdapter, createZeroXIOAdapter } from './supports/0xio';
 export { OctraProviderAdapter, createOctraProviderAdapter } from './supports/octra-provider';
+export type { OctraProvider, OctraProviderAdapterOptions } from './supports/octra-provider';
 export { detectWalletAdapter, getAllAdapters } from './supports';
 
+// Wallet discovery — wallets announce themselves (octra:announceProvider, EIP-6963 style)
+export {
+  discoverWallets,
+  watchWallets,
+  getDiscoveredWallets,
+  requestWallets,
+  announceProvider,
+  ANNOUNCE_PROVIDER_EVENT,
+  REQUEST_PROVIDER_EVENT
+} from './discovery';
+export type {
+  OctraProviderInfo,
+  OctraProviderDetail,
+  DiscoveredWallet,
+  DiscoverWalletsOptions,
+  WalletsListener
+} from './discovery';
+
+// Headless — signs with a local Ed25519 key and submits over JSON-RPC (Node, CI, backends)
+export { createLocalSignerAdapter } from './supports/local-signer';
+export type { LocalSignerOptions } from './supports/local-signer';
+
+// Testing — in-memory wallet that answers every SDK method without an extension
+export { createMockWalletAdapter } from './supports/mock';
+export type {
+  MockWalletAdapter,
+  MockWalletOptions,
+  MockAccount,
+  MockAccountState,
+  MockContract
+} from './supports/mock';
+
 // Type exports
 export type {
   // Core types
@@ -42,30 +86,41 @@ export type {
   NetworkInfo,
   ConnectionInfo,
   ConnectOptions,
+  RequestOptions,
+  ApprovalQueueOptions,
   SDKConfig,
 
   // Transaction types
   ContractParam,
   ContractParams,
   ContractCallData,
+  ContractSimulationResult,
   ContractViewCallData,
   TransactionData,
   SignedTransaction,
   TransactionFinality,
   TransactionResult,
+  BatchTransactionItemResult,
+  BatchTransactionResult,
   TransactionHistory,
   Transaction,
 
   // Event types
   WalletEventType,
+  WalletEventMap,
   WalletEvent,
+  WalletEventOf,
   ConnectEvent,
   DisconnectEvent,
   AccountChangedEvent,
+  AccountsChangedEvent,
   BalanceChangedEvent,
   NetworkChangedEvent,
   TransactionConfirmedEvent,
   ErrorEvent,
+  ExtensionLockEvent,
+  ApprovalQueueEvent,
+  ApprovalQueueEntry,
 
   // Private balance types
   PrivateBalanceInfo,
@@ -75,6 +130,9 @@ export type {
   // Permission types
   Permission,
 
+  // Message signing types
+  AuthMessage,
+
   // Communication types
   ExtensionRequest,
   ExtensionResponse
@@ -83,6 +141,99 @@ export type {
 // Error exports
 export { ErrorCode, ZeroXIOWalletError } from './types';
 
+// Permission scopes
+export { PERMISSIONS } from './types';
+
+// Exact amounts — bigint micro-OCT, accepted anywhere an OCT amount is
+export { OctAmount } from './amount';
+export type { OctAmountInput, OctAmountFormatOptions } from './amount';
+
+// Contract parameter encoding — bigint, bytes and validated addresses
+export {
+  encodeContractParam,
+  encodeContractParams,
+  decodeBigInt,
+  decodeBytes,
+  decodeAddress,
+  toAddress,
+  isAddress,
+  MAX_CONTRACT_PARAMS_BYTES
+} from './encoding';
+export type { Address, WireContractParam, EncodedContractParams } from './encoding';
+
+// Typed contract bindings
+export { defineContract } from './contract';
+export type {
+  ContractDescriptor,
+  ContractMethodDescriptor,
+  ContractParamDescriptor,
+  ContractParamType,
+  ContractReturnType,
+  ContractCallOverrides,
+  ContractViewOverrides,
+  ContractRunner,
+  ContractBinding,
+  DefineContractOptions
+} from './contract';
+
+// Sign-In With Octra — structured sign-in messages and a server-side verifier
+export {
+  createSiwoMessage,
+  formatSiwoMessage,
+  parseSiwoMessage,
+  verifySiwoMessage,
+  generateSiwoNonce
+} from './siwo';
+export type {
+  SiwoMessage,
+  SiwoMessageFields,
+  SiwoVerifyOptions,
+  SiwoFailureReason,
+  SiwoSignInOptions,
+  SiwoSignInResult
+} from './siwo';
+
+// Session persistence — silent reconnect after a reload (SDKConfig.persistSession)
+export {
+  createMemorySessionStore,
+  createWebStorageSessionStore,
+  createIndexedDBSessionStore,
+  loadPersistedSession
+} from './session';
+export type {
+  SessionStore,
+  SessionStorageKind,
+  SessionPersistenceOptions,
+  PersistedSession
+} from './session';
+
+// Reactive wallet state — wallet.store snapshot with selector subscriptions
+export { shallowEqual, INITIAL_WALLET_STATE } from './store';
+export type {
+  WalletStore,
+  WalletState,
+  WalletStatus,
+  PendingTransaction,
+  PendingTransactionKind,
+  StateSelector,
+  StateListener,
+  EqualityFn,
+  StoreSubscribeOptions
+} from './store';
+
+// Typed structured data signing (EIP-712 style)
+export {
+  createTypedDataPayload,
+  hashTypedData,
+  hashTypedDataDomain,
+  hashTypedDataStruct,
+  encodeTypedDataType,
+  getTypedDataPrimaryType,
+  verifyTypedData,
+  TYPED_DATA_DOMAIN_TYPE
+} from './typed-data';
+export type { TypedDataDomain, TypedDataField, TypedDataTypes, TypedDataPayload, SignedTypedData } from './typed-data';
+
 // Configuration exports
 export {
   NETWORKS,
@@ -92,6 +243,7 @@ export {
   getAllNetworks,
   getDefaultNetwork,
   createDefaultBalance,
+  createExactBalance,
   isValidNetworkId
 } from './config';
 
@@ -106,6 +258,11 @@ export {
   // Address derivation
   deriveOctraAddress,
 
+  // Signature verification
+  verifyMessage,
+  recoverAndCheckAddress,
+  formatAuthMessage,
+
   // Formatting utilities
   formatOCT,
   formatOCT as formatZeroXIO,
@@ -122,6 +279,8 @@ export {
   // Error utilities
   createErrorMessage,
   isErrorType,
+  createAbortError,
+  throwIfAborted,
 
   // Async utilities
   delay,
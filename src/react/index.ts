@@ -0,0 +1,576 @@
+/**
+ * 0xio SDK — React bindings (`@0xio/sdk/react`)
+ *
+ * <ZeroXIOProvider> owns one ZeroXIOWallet for the tree below it; the hooks read
+ * `wallet.store` through useSyncExternalStore, so components re-render only when
+ * the slice they select changes.
+ *
+ * SSR: the wallet is created in an effect, never during render — on the server
+ * every hook reports the disconnected initial state. StrictMode: the simulated
+ * unmount/remount reuses the same wallet (disposal is deferred by a tick), and
+ * initialize() is idempotent, so no second set of listeners is registered.
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import type { ReactNode } from 'react';
+import {
+  ZeroXIOWallet,
+  ZeroXIOWalletError,
+  ErrorCode,
+  encodeContractParams,
+  shallowEqual,
+  INITIAL_WALLET_STATE
+} from '../index';
+import type {
+  Balance,
+  ConnectEvent,
+  ConnectOptions,
+  ContractCallData,
+  ContractParams,
+  EqualityFn,
+  NetworkInfo,
+  Permission,
+  SDKConfig,
+  TransactionData,
+  TransactionResult,
+  WalletState,
+  WalletStatus
+} from '../index';
+
+// ===================
+// Provider
+// ===================
+
+/** Lifecycle of the provider's initialize() call */
+export type WalletInitStatus = 'idle' | 'initializing' | 'ready' | 'error';
+
+interface ZeroXIOContextValue {
+  readonly wallet: ZeroXIOWallet | null;
+  readonly initStatus: WalletInitStatus;
+  readonly initError: ZeroXIOWalletError | null;
+}
+
+const ZeroXIOContext = createContext<ZeroXIOContextValue | null>(null);
+
+export interface ZeroXIOProviderProps {
+  /**
+   * SDK configuration; read once when the provider mounts. Change the provider's
+   * `key` to start over with a different config.
+   */
+  readonly config?: SDKConfig;
+  /** Use an existing wallet instead of creating one; it is not cleaned up on unmount */
+  readonly wallet?: ZeroXIOWallet;
+  /** Call initialize() on mount (default true) */
+  readonly autoInitialize?: boolean;
+  readonly children?: ReactNode;
+}
+
+function toWalletError(error: unknown, fallback: string): ZeroXIOWalletError {
+  return error instanceof ZeroXIOWalletError
+    ? error
+    : new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, fallback, error);
+}
+
+export function ZeroXIOProvider(props: ZeroXIOProviderProps) {
+  const { wallet: externalWallet, autoInitialize = true } = props;
+  if (!externalWallet && !props.config) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, 'ZeroXIOProvider needs either `config` or `wallet`');
+  }
+  const configRef = useRef(props.config);
+  const ownedRef = useRef<{ wallet: ZeroXIOWallet; disposeTimer: ReturnType<typeof setTimeout> | null } | null>(null);
+  const [wallet, setWallet] = useState<ZeroXIOWallet | null>(externalWallet ?? null);
+  const [initStatus, setInitStatus] = useState<WalletInitStatus>('idle');
+  const [initError, setInitError] = useState<ZeroXIOWalletError | null>(null);
+
+  // Create (or adopt) the wallet on the client only
+  useEffect(() => {
+    if (externalWallet) {
+      setWallet(externalWallet);
+      return;
+    }
+    let owned = ownedRef.current;
+    if (owned?.disposeTimer) {
+      // StrictMode remount — keep the instance that is still alive
+      clearTimeout(owned.disposeTimer);
+      owned.disposeTimer = null;
+    } else if (!owned) {
+      owned = { wallet: new ZeroXIOWallet(configRef.current!), disposeTimer: null };
+      ownedRef.current = owned;
+    }
+    setWallet(owned.wallet);
+
+    return () => {
+      const current = ownedRef.current;
+      if (!current) return;
+      current.disposeTimer = setTimeout(() => {
+        current.wallet.cleanup();
+        if (ownedRef.current === current) ownedRef.current = null;
+      }, 0);
+    };
+  }, [externalWallet]);
+
+  useEffect(() => {
+    if (!wallet || !autoInitialize) return;
+    let active = true;
+
+    setInitStatus('initializing');
+    setInitError(null);
+    wallet.initialize().then(
+      () => {
+        if (active) setInitStatus('ready');
+      },
+      (error) => {
+        if (!active) return;
+        setInitError(toWalletError(error, 'Failed to initialize SDK'));
+        setInitStatus('error');
+      }
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [wallet, autoInitialize]);
+
+  return createElement(
+    ZeroXIOContext.Provider,
+    { value: { wallet, initStatus, initError } },
+    props.children
+  );
+}
+
+function useZeroXIOContext(): ZeroXIOContextValue {
+  const context = useContext(ZeroXIOContext);
+  if (!context) {
+    throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, '0xio hooks must be used inside <ZeroXIOProvider>');
+  }
+  return context;
+}
+
+function requireWallet(wallet: ZeroXIOWallet | null): ZeroXIOWallet {
+  if (!wallet) {
+    throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'Wallet is not ready yet');
+  }
+  return wallet;
+}
+
+// ===================
+// State hooks
+// ===================
+
+const noopSubscribe = () => () => { };
+
+/**
+ * Select a slice of `wallet.store`. The component re-renders only when the
+ * selected value changes (Object.is, or `equalityFn`). Before the wallet exists
+ * — and during SSR — the selector sees the initial disconnected state.
+ */
+export function useWalletState<T>(selector: (state: WalletState) => T, equalityFn: EqualityFn<T> = Object.is): T {
+  const { wallet } = useZeroXIOContext();
+  const selectorRef = useRef(selector);
+  const equalityRef = useRef(equalityFn);
+  selectorRef.current = selector;
+  equalityRef.current = equalityFn;
+
+  // memoize per snapshot so getSnapshot stays referentially stable between store changes
+  const cache = useRef<{ state: WalletState; value: T } | null>(null);
+  const select = (state: WalletState): T => {
+    const cached = cache.current;
+    if (cached && cached.state === state) return cached.value;
+    const value = selectorRef.current(state);
+    const stable = cached && equalityRef.current(cached.value, value) ? cached.value : value;
+    cache.current = { state, value: stable };
+    return stable;
+  };
+
+  const subscribe = useCallback(
+    (onChange: () => void) => (wallet ? wallet.store.subscribe(onChange) : noopSubscribe()),
+    [wallet]
+  );
+  const getSnapshot = () => select(wallet ? wallet.store.getState() : INITIAL_WALLET_STATE);
+  const getServerSnapshot = () => select(INITIAL_WALLET_STATE);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+export interface UseWalletResult {
+  /** Null until the provider has created (or adopted) it */
+  readonly wallet: ZeroXIOWallet | null;
+  readonly initStatus: WalletInitStatus;
+  readonly initError: ZeroXIOWalletError | null;
+  readonly status: WalletStatus;
+  readonly isConnected: boolean;
+  readonly isConnecting: boolean;
+  readonly connectError: ZeroXIOWalletError | null;
+  connect(options?: ConnectOptions): Promise<ConnectEvent>;
+  disconnect(): Promise<void>;
+}
+
+export function useWallet(): UseWalletResult {
+  const { wallet, initStatus, initError } = useZeroXIOContext();
+  const status = useWalletState((s) => s.status);
+  const connectMutation = useMutation((options?: ConnectOptions) => requireWallet(wallet).connect(options), [wallet]);
+  const disconnect = useCallback(() => requireWallet(wallet).disconnect(), [wallet]);
+
+  return {
+    wallet,
+    initStatus,
+    initError,
+    status,
+    isConnected: status === 'connected',
+    isConnecting: connectMutation.isPending,
+    connectError: connectMutation.error,
+    connect: connectMutation.mutate,
+    disconnect,
+  };
+}
+
+export interface UseAccountResult {
+  readonly address: string | null;
+  /** Every authorized account; `address` is the active one */
+  readonly accounts: readonly string[];
+  readonly publicKey: string | null;
+  readonly permissions: readonly Permission[];
+  readonly status: WalletStatus;
+  readonly isConnected: boolean;
+}
+
+export function useAccount(): UseAccountResult {
+  return useWalletState(
+    (s) => ({
+      address: s.address,
+      accounts: s.accounts,
+      publicKey: s.publicKey,
+      permissions: s.permissions,
+      status: s.status,
+      isConnected: s.isConnected,
+    }),
+    shallowEqual
+  );
+}
+
+export interface UseBalanceResult {
+  readonly balance: Balance | null;
+  readonly isLoading: boolean;
+  readonly error: ZeroXIOWalletError | null;
+  refetch(): Promise<Balance>;
+}
+
+/**
+ * Balance of the connected account. Fetched once when an account connects
+ * without one; afterwards kept current by balanceChanged pushes.
+ */
+export function useBalance(): UseBalanceResult {
+  const { wallet } = useZeroXIOContext();
+  const balance = useWalletState((s) => s.balance);
+  const address = useWalletState((s) => s.address);
+  const fetch = useMutation(() => requireWallet(wallet).getBalance(true), [wallet]);
+
+  useEffect(() => {
+    if (wallet && address && !wallet.store.getState().balance) {
+      fetch.mutate().catch(() => { });
+    }
+    // fetch.mutate is stable per wallet
+  }, [wallet, address]);
+
+  return { balance, isLoading: fetch.isPending, error: fetch.error, refetch: fetch.mutate };
+}
+
+export interface UseNetworkResult {
+  readonly network: NetworkInfo | null;
+  readonly networkId: string | null;
+  readonly isSwitching: boolean;
+  readonly error: ZeroXIOWalletError | null;
+  switchNetwork(networkId: string): Promise<{ network: string; switched: boolean }>;
+}
+
+export function useNetwork(): UseNetworkResult {
+  const { wallet } = useZeroXIOContext();
+  const network = useWalletState((s) => s.network);
+  const switcher = useMutation((networkId: string) => requireWallet(wallet).switchNetwork(networkId), [wallet]);
+
+  return {
+    network,
+    networkId: network?.id ?? null,
+    isSwitching: switcher.isPending,
+    error: switcher.error,
+    switchNetwork: switcher.mutate,
+  };
+}
+
+// ===================
+// Mutation hooks
+// ===================
+
+export interface MutationResult<TArgs extends unknown[], TData> {
+  readonly data: TData | undefined;
+  readonly error: ZeroXIOWalletError | null;
+  readonly isPending: boolean;
+  /** Resolves with the result; also rejects, so callers may await and catch */
+  mutate(...args: TArgs): Promise<TData>;
+  reset(): void;
+}
+
+function useMutation<TArgs extends unknown[], TData>(
+  fn: (...args: TArgs) => Promise<TData>,
+  deps: readonly unknown[]
+): MutationResult<TArgs, TData> {
+  const [state, setState] = useState<{ data: TData | undefined; error: ZeroXIOWalletError | null; isPending: boolean }>(
+    { data: undefined, error: null, isPending: false }
+  );
+  const mounted = useRef(false);
+  // only the latest call may write state
+  const callId = useRef(0);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const mutate = useCallback(async (...args: TArgs): Promise<TData> => {
+    const id = ++callId.current;
+    setState((prev) => ({ ...prev, error: null, isPending: true }));
+    try {
+      const data = await fn(...args);
+      if (mounted.current && id === callId.current) setState({ data, error: null, isPending: false });
+      return data;
+    } catch (error) {
+      const walletError = toWalletError(error, 'Request failed');
+      if (mounted.current && id === callId.current) setState({ data: undefined, error: walletError, isPending: false });
+      throw walletError;
+    }
+  }, deps);
+
+  const reset = useCallback(() => {
+    ++callId.current;
+    setState({ data: undefined, error: null, isPending: false });
+  }, []);
+
+  return { ...state, mutate, reset };
+}
+
+export type UseSendTransactionResult = MutationResult<[TransactionData], TransactionResult> & {
+  sendTransaction(txData: TransactionData): Promise<TransactionResult>;
+};
+
+export function useSendTransaction(): UseSendTransactionResult {
+  const { wallet } = useZeroXIOContext();
+  const mutation = useMutation((txData: TransactionData) => requireWallet(wallet).sendTransaction(txData), [wallet]);
+  return { ...mutation, sendTransaction: mutation.mutate };
+}
+
+export type UseContractWriteResult = MutationResult<[ContractCallData], TransactionResult> & {
+  write(callData: ContractCallData): Promise<TransactionResult>;
+};
+
+export function useContractWrite(): UseContractWriteResult {
+  const { wallet } = useZeroXIOContext();
+  const mutation = useMutation((callData: ContractCallData) => requireWallet(wallet).callContract(callData), [wallet]);
+  return { ...mutation, write: mutation.mutate };
+}
+
+export type UseSignMessageResult = MutationResult<[string], string> & {
+  signMessage(message: string): Promise<string>;
+};
+
+export function useSignMessage(): UseSignMessageResult {
+  const { wallet } = useZeroXIOContext();
+  const mutation = useMutation((message: string) => requireWallet(wallet).signMessage(message), [wallet]);
+  return { ...mutation, signMessage: mutation.mutate };
+}
+
+// ===================
+// Contract reads
+// ===================
+
+interface ReadCacheEntry {
+  data?: unknown;
+  error?: ZeroXIOWalletError;
+  promise?: Promise<unknown>;
+  /** Bumped on every change so subscribers re-read the entry */
+  version: number;
+  listeners: Set<() => void>;
+  /** Latest read function registered by a subscribed component */
+  read?: () => Promise<unknown>;
+}
+
+/** One cache per wallet; dropped with the wallet */
+const readCaches = new WeakMap<ZeroXIOWallet, Map<string, ReadCacheEntry>>();
+
+function readCache(wallet: ZeroXIOWallet): Map<string, ReadCacheEntry> {
+  let cache = readCaches.get(wallet);
+  if (!cache) {
+    const entries = new Map<string, ReadCacheEntry>();
+    // results depend on chain state — refetch what is on screen, forget the rest
+    const invalidate = () => {
+      for (const [key, entry] of entries) {
+        if (entry.listeners.size > 0 && entry.read) {
+          fetchContractRead(entry, entry.read, true).catch(() => { });
+        } else {
+          entries.delete(key);
+        }
+      }
+    };
+    const listen = () => {
+      wallet.off('balanceChanged', invalidate);
+      wallet.off('networkChanged', invalidate);
+      wallet.on('balanceChanged', invalidate);
+      wallet.on('networkChanged', invalidate);
+    };
+    listen();
+    // cleanup() drops event listeners but keeps store subscriptions: listen again once the wallet is back
+    wallet.store.subscribe((state) => state.status, listen);
+    readCaches.set(wallet, entries);
+    cache = entries;
+  }
+  return cache;
+}
+
+function cacheEntry(wallet: ZeroXIOWallet, key: string): ReadCacheEntry {
+  const cache = readCache(wallet);
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { version: 0, listeners: new Set() };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+/** Share the in-flight request unless `force`; a newer request supersedes older ones */
+function fetchContractRead(entry: ReadCacheEntry, read: () => Promise<unknown>, force = false): Promise<unknown> {
+  if (entry.promise && !force) return entry.promise;
+
+  const notify = () => {
+    entry.version++;
+    for (const listener of Array.from(entry.listeners)) listener();
+  };
+  const promise: Promise<unknown> = read().then(
+    (data) => {
+      if (entry.promise === promise) {
+        entry.data = data;
+        entry.error = undefined;
+        entry.promise = undefined;
+        notify();
+      }
+      return data;
+    },
+    (error) => {
+      const walletError = toWalletError(error, 'Contract read failed');
+      if (entry.promise === promise) {
+        entry.error = walletError;
+        entry.promise = undefined;
+        notify();
+      }
+      throw walletError;
+    }
+  );
+  entry.promise = promise;
+  notify();
+  return promise;
+}
+
+export interface UseContractReadOptions {
+  readonly contract: string;
+  readonly method: string;
+  readonly params?: ContractParams;
+  readonly caller?: string;
+  /** Skip fetching while false (default true) */
+  readonly enabled?: boolean;
+}
+
+export interface UseContractReadResult<T> {
+  readonly data: T | undefined;
+  readonly error: ZeroXIOWalletError | null;
+  readonly isLoading: boolean;
+  refetch(): Promise<T>;
+}
+
+/**
+ * Cached contractCallView. Components reading the same contract, method,
+ * params and caller share one request and one result. Mounted reads refetch on
+ * balanceChanged and networkChanged.
+ */
+export function useContractRead<T = unknown>(options: UseContractReadOptions): UseContractReadResult<T> {
+  const { wallet, initStatus } = useZeroXIOContext();
+  const { contract, method, params, caller, enabled = true } = options;
+  // wire form is JSON-safe (bigint, bytes) and doubles as the cache key; params that
+  // cannot be encoded leave no key and surface as the result's error
+  let key: string | null = null;
+  let paramsError: ZeroXIOWalletError | null = null;
+  try {
+    key = JSON.stringify([contract, method, encodeContractParams(params ?? []).params, caller ?? null]);
+  } catch (error) {
+    paramsError = toWalletError(error, 'Invalid contract params');
+  }
+  const ready = !!wallet && initStatus === 'ready' && enabled && key !== null;
+
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const paramsErrorRef = useRef(paramsError);
+  paramsErrorRef.current = paramsError;
+  // key covers contract, method, params and caller
+  const read = useCallback(
+    () => requireWallet(wallet).contractCallView({
+      contract,
+      method,
+      params: paramsRef.current ?? [],
+      ...(caller != null ? { caller } : {}),
+    }),
+    [wallet, key]
+  );
+
+  const subscribe = useCallback((onChange: () => void) => {
+    if (!wallet || key === null) return noopSubscribe();
+    const entry = cacheEntry(wallet, key);
+    entry.listeners.add(onChange);
+    return () => {
+      entry.listeners.delete(onChange);
+    };
+  }, [wallet, key]);
+  // the version makes React re-render when the entry changes; the entry itself is read below
+  useSyncExternalStore(
+    subscribe,
+    () => (wallet && key !== null ? readCache(wallet).get(key)?.version ?? -1 : -1),
+    () => -1
+  );
+
+  useEffect(() => {
+    if (!ready || !wallet || key === null) return;
+    const entry = cacheEntry(wallet, key);
+    entry.read = read;
+    // first reader fetches; later ones share the cached result
+    if (entry.data === undefined && !entry.error && !entry.promise) {
+      fetchContractRead(entry, read).catch(() => { });
+    }
+  }, [ready, wallet, key, read]);
+
+  const refetch = useCallback(
+    () => (key === null
+      ? Promise.reject(paramsErrorRef.current)
+      : fetchContractRead(cacheEntry(requireWallet(wallet), key), read, true)) as Promise<T>,
+    [wallet, key, read]
+  );
+
+  if (paramsError) {
+    return { data: undefined, error: paramsError, isLoading: false, refetch };
+  }
+  const entry = wallet && key !== null ? readCache(wallet).get(key) : undefined;
+  return {
+    data: entry?.data as T | undefined,
+    error: entry?.error ?? null,
+    isLoading: enabled && (!entry || !!entry.promise || (entry.data === undefined && !entry.error)),
+    refetch,
+  };
+}
+
+export type { WalletState, WalletStatus } from '../index';
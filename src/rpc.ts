@@ -0,0 +1,428 @@
+/**
+ * 0xio SDK — Octra JSON-RPC client
+ *
+ * Talks directly to a node at NetworkInfo.rpcUrl for chain reads (balances, nonces,
+ * transactions, contract views and storage) and raw submission of signed
+ * transactions. No wallet connection or extension is needed, so landing pages and
+ * dashboards can show chain data before the user installs or unlocks a wallet.
+ *
+ * Node errors are mapped onto ZeroXIOWalletError/ErrorCode, including the
+ * octra_submit error types (NONCE_TOO_FAR, DUPLICATE_TRANSACTION, …).
+ *
+ * @example
+ * ```typescript
+ * import { OctraRpcClient } from '@0xio/sdk';
+ *
+ * const rpc = new OctraRpcClient('mainnet');
+ * const { balance, nonce } = await rpc.getAccount('oct…');
+ * const bin = await rpc.contractCallView({ contract: 'oct…', method: 'get_active_bin', params: [] });
+ * ```
+ */
+
+import {
+  Balance,
+  BatchTransactionItemResult,
+  BatchTransactionResult,
+  ContractCallData,
+  ContractSimulationResult,
+  ContractViewCallData,
+  NetworkInfo,
+  SignedTransaction,
+  Transaction,
+  TransactionFinality,
+  TransactionResult,
+  ErrorCode,
+  ZeroXIOWalletError
+} from './types';
+import { getNetworkConfig, isValidNetworkId, validateBalance } from './config';
+import { createLogger, isValidAddress } from './utils';
+import { encodeContractParams } from './encoding';
+import { OctAmount } from './amount';
+
+/** Node error `data.type` → SDK ErrorCode */
+const RPC_ERROR_TYPES: Record<string, ErrorCode> = {
+  malformed_transaction: ErrorCode.MALFORMED_TRANSACTION,
+  self_transfer: ErrorCode.SELF_TRANSFER,
+  sender_not_found: ErrorCode.SENDER_NOT_FOUND,
+  invalid_signature: ErrorCode.INVALID_SIGNATURE,
+  duplicate_transaction: ErrorCode.DUPLICATE_TRANSACTION,
+  nonce_too_far: ErrorCode.NONCE_TOO_FAR,
+  insufficient_balance: ErrorCode.INSUFFICIENT_BALANCE,
+  invalid_address: ErrorCode.INVALID_ADDRESS,
+  invalid_amount: ErrorCode.INVALID_AMOUNT,
+  internal_error: ErrorCode.INTERNAL_ERROR,
+};
+
+/** Standard JSON-RPC 2.0 error codes → SDK ErrorCode */
+const JSON_RPC_ERROR_CODES: Record<number, ErrorCode> = {
+  [-32700]: ErrorCode.MALFORMED_TRANSACTION,
+  [-32600]: ErrorCode.MALFORMED_TRANSACTION,
+  [-32601]: ErrorCode.NETWORK_ERROR,
+  [-32602]: ErrorCode.MALFORMED_TRANSACTION,
+  [-32603]: ErrorCode.INTERNAL_ERROR,
+};
+
+export interface OctraRpcClientOptions {
+  /** Per-request timeout in ms (default 30000) */
+  readonly timeout?: number;
+  /** fetch implementation (default: globalThis.fetch) */
+  readonly fetch?: typeof fetch;
+  readonly debug?: boolean;
+}
+
+export interface AccountInfo {
+  readonly address: string;
+  /** Public balance in OCT, as returned by the node */
+  readonly balance: string;
+  /** Last confirmed account nonce */
+  readonly nonce: number;
+  /** Highest nonce including mempool transactions (falls back to `nonce`) */
+  readonly pendingNonce: number;
+}
+
+/**
+ * Map a JSON-RPC error object onto a ZeroXIOWalletError.
+ */
+export function mapRpcError(error: any, method: string): ZeroXIOWalletError {
+  const type = typeof error?.data?.type === 'string' ? error.data.type.toLowerCase() : '';
+  const code = RPC_ERROR_TYPES[type]
+    ?? JSON_RPC_ERROR_CODES[error?.code]
+    ?? ErrorCode.NETWORK_ERROR;
+  return new ZeroXIOWalletError(
+    code,
+    typeof error?.message === 'string' ? error.message : `RPC error in ${method}`,
+    { method, rpcCode: error?.code, type: type || undefined }
+  );
+}
+
+function normalizeFinality(raw: unknown): TransactionFinality {
+  switch (raw) {
+    case 'confirmed':
+    case 'rejected':
+    case 'dropped':
+      return raw;
+    case 'failed':
+      return 'rejected';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Normalize a node transaction record into the SDK Transaction shape.
+ */
+export function normalizeTransaction(raw: any): Transaction {
+  const finality = normalizeFinality(raw?.finality ?? raw?.status);
+  const status: Transaction['status'] =
+    finality === 'rejected' ? 'failed' : finality;
+  const timestamp = Number(raw?.timestamp ?? 0);
+  const blockHeight = raw?.block_height ?? raw?.blockHeight ?? raw?.epoch;
+
+  return {
+    hash: String(raw?.hash ?? raw?.tx_hash ?? ''),
+    from: String(raw?.from ?? ''),
+    to: String(raw?.to ?? raw?.to_ ?? ''),
+    amount: raw?.amount ?? '0',
+    fee: raw?.fee ?? '0',
+    // node timestamps are unix seconds; SDK timestamps are ms
+    timestamp: timestamp > 0 && timestamp < 1e12 ? Math.round(timestamp * 1000) : timestamp,
+    status,
+    finality,
+    ...(raw?.message ? { message: String(raw.message) } : {}),
+    ...(blockHeight != null ? { blockHeight: Number(blockHeight) } : {}),
+    ...(raw?.confirmations != null ? { confirmations: Number(raw.confirmations) } : {}),
+  };
+}
+
+/**
+ * Normalize a contract simulation result (contract_call_simulate or a wallet's
+ * simulate_contract_call). Fee defaults to 1 micro-OCT per consumed OU when the
+ * node does not report one.
+ */
+export function normalizeSimulation(raw: any): ContractSimulationResult {
+  const ouConsumed = Number(raw?.ou_consumed ?? raw?.ouConsumed ?? raw?.ou_used ?? 0);
+  if (!Number.isFinite(ouConsumed) || ouConsumed < 0) {
+    throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Malformed simulation result', { result: raw });
+  }
+
+  const error = raw?.revert_reason ?? raw?.revertReason ?? raw?.error;
+  const revertReason = typeof error === 'string' ? error : error?.message;
+  const success = Boolean(raw?.success ?? raw?.ok ?? !revertReason);
+
+  let fee: OctAmount;
+  try {
+    fee = raw?.fee != null ? OctAmount.from(String(raw.fee)) : OctAmount.fromMicro(Math.ceil(ouConsumed));
+  } catch {
+    fee = OctAmount.fromMicro(Math.ceil(ouConsumed));
+  }
+
+  return {
+    success,
+    ...(raw?.result !== undefined ? { result: raw.result } : {}),
+    ouConsumed,
+    ...(revertReason ? { revertReason: String(revertReason) } : {}),
+    fee,
+  };
+}
+
+/**
+ * Normalize a batch submission result (octra_submitBatch or a wallet's send_transactions)
+ * into one BatchTransactionItemResult per transaction. Accepts either a bare array or
+ * `{ results: [...] }`; each item is either a success record or `{ error }`.
+ */
+export function normalizeBatchResults(
+  raw: any,
+  expectedLength: number,
+  explorerUrl?: string
+): BatchTransactionResult {
+  const items = Array.isArray(raw) ? raw : raw?.results;
+  if (!Array.isArray(items) || items.length !== expectedLength) {
+    throw new ZeroXIOWalletError(
+      ErrorCode.TRANSACTION_FAILED,
+      'Malformed batch result — expected one entry per transaction',
+      { expected: expectedLength, received: Array.isArray(items) ? items.length : undefined }
+    );
+  }
+
+  const results: BatchTransactionItemResult[] = items.map((item: any, index: number) => {
+    if (item?.error) {
+      const mapped = mapRpcError(item.error, 'octra_submitBatch');
+      const code = (Object.values(ErrorCode) as string[]).includes(item.error.code)
+        ? item.error.code as ErrorCode
+        : mapped.code;
+      return {
+        index,
+        accepted: false,
+        success: false,
+        status: 'rejected',
+        finality: 'rejected',
+        error: { code, message: mapped.message },
+      };
+    }
+    const hash: string | undefined = item?.hash ?? item?.tx_hash ?? item?.txHash;
+    const accepted = (item?.accepted ?? item?.success ?? !!hash) === true;
+    return {
+      ...(item && typeof item === 'object' ? item : {}),
+      index,
+      hash,
+      txHash: hash,
+      accepted,
+      success: accepted,
+      status: item?.status ?? (accepted ? 'pending' : 'rejected'),
+      ...(explorerUrl && hash && !item?.explorerUrl ? { explorerUrl: explorerUrl + hash } : {}),
+      ...(accepted ? {} : {
+        error: { code: ErrorCode.TRANSACTION_FAILED, message: item?.message ?? 'Transaction was not accepted' },
+      }),
+    };
+  });
+
+  const acceptedCount = results.filter((r) => r.accepted).length;
+  return { results, acceptedCount, rejectedCount: results.length - acceptedCount };
+}
+
+export class OctraRpcClient {
+  readonly network: NetworkInfo;
+  private readonly timeout: number;
+  private readonly fetchFn: typeof fetch | undefined;
+  private readonly logger: ReturnType<typeof createLogger>;
+  private nextId = 0;
+
+  /**
+   * @param network  NetworkInfo, a built-in network ID ('mainnet', 'devnet') or a raw RPC URL
+   */
+  constructor(network: NetworkInfo | string = 'mainnet', options: OctraRpcClientOptions = {}) {
+    if (typeof network === 'string') {
+      this.network = isValidNetworkId(network)
+        ? getNetworkConfig(network)
+        : { ...getNetworkConfig('custom'), rpcUrl: network };
+    } else {
+      this.network = network;
+    }
+
+    if (!this.network.rpcUrl) {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, `Network ${this.network.id} has no rpcUrl`);
+    }
+
+    this.timeout = options.timeout ?? 30000;
+    this.fetchFn = options.fetch ?? (typeof fetch !== 'undefined' ? fetch.bind(globalThis) : undefined);
+    this.logger = createLogger('OctraRpcClient', options.debug ?? false);
+  }
+
+  get rpcUrl(): string {
+    return this.network.rpcUrl;
+  }
+
+  /**
+   * Send a raw JSON-RPC request. Resolves with `result`, throws a mapped ZeroXIOWalletError on `error`.
+   */
+  async call<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    if (!this.fetchFn) {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'fetch is not available — pass options.fetch');
+    }
+
+    const id = ++this.nextId;
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const timer = setTimeout(() => controller?.abort(), this.timeout);
+
+    this.logger.log(`RPC ${method}`, { id });
+
+    let body: any;
+    try {
+      const res = await this.fetchFn(this.network.rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+        signal: controller?.signal,
+      });
+      if (res.status === 429) {
+        throw new ZeroXIOWalletError(ErrorCode.RATE_LIMIT_EXCEEDED, 'Node rate limit exceeded', { method });
+      }
+      body = await res.json();
+    } catch (error) {
+      if (error instanceof ZeroXIOWalletError) throw error;
+      const timedOut = controller?.signal.aborted;
+      throw new ZeroXIOWalletError(
+        ErrorCode.NETWORK_ERROR,
+        timedOut ? `RPC request timeout after ${this.timeout}ms` : `RPC request failed: ${method}`,
+        { method, rpcUrl: this.network.rpcUrl }
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (body?.error) {
+      throw mapRpcError(body.error, method);
+    }
+    if (!body || !('result' in body)) {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, `Malformed RPC response for ${method}`, { method });
+    }
+    return body.result as T;
+  }
+
+  async getAccount(address: string): Promise<AccountInfo> {
+    this.assertAddress(address);
+    const result = await this.call('octra_balance', [address]);
+    const nonce = Number(result?.nonce ?? 0);
+    return {
+      address,
+      balance: String(result?.balance ?? '0'),
+      nonce,
+      pendingNonce: Number(result?.pending_nonce ?? nonce),
+    };
+  }
+
+  /**
+   * Public balance of an address. Private (encrypted) balances are not readable over RPC.
+   */
+  async getBalance(address: string): Promise<Balance> {
+    const account = await this.getAccount(address);
+    const balance = validateBalance({ public: account.balance });
+    if (!balance) {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Node returned an invalid balance', { address });
+    }
+    return balance;
+  }
+
+  async getNonce(address: string): Promise<number> {
+    return (await this.getAccount(address)).nonce;
+  }
+
+  /**
+   * Look up a transaction by hash. Resolves null when the node does not know it.
+   */
+  async getTransaction(hash: string): Promise<Transaction | null> {
+    if (!hash || typeof hash !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Transaction hash is required');
+    }
+    const result = await this.call('octra_transaction', [hash]);
+    return result ? normalizeTransaction({ hash, ...result }) : null;
+  }
+
+  /**
+   * Read-only contract view call.
+   */
+  async contractCallView(viewData: ContractViewCallData): Promise<any> {
+    this.assertAddress(viewData.contract, 'Invalid contract address');
+    if (!viewData.method || typeof viewData.method !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract method is required');
+    }
+    if (viewData.method.length > 200) {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract method name too long (max 200 characters)');
+    }
+    return this.call('contract_call_view', [
+      viewData.contract,
+      viewData.method,
+      encodeContractParams(viewData.params).params,
+      ...(viewData.caller != null ? [viewData.caller] : []),
+    ]);
+  }
+
+  /**
+   * Dry-run a state-changing contract call. Nothing is signed or submitted.
+   */
+  async simulateContractCall(callData: ContractCallData, caller?: string): Promise<ContractSimulationResult> {
+    this.assertAddress(callData.contract, 'Invalid contract address');
+    if (!callData.method || typeof callData.method !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract method is required');
+    }
+    const amount = OctAmount.from(callData.amount ?? '0');
+    const result = await this.call('contract_call_simulate', [
+      callData.contract,
+      callData.method,
+      encodeContractParams(callData.params).params,
+      caller ?? null,
+      amount.toMicroString(),
+    ]);
+    return normalizeSimulation(result);
+  }
+
+  /**
+   * Read contract storage by key. Resolves null for unset keys.
+   */
+  async getContractStorage(contract: string, key: string): Promise<string | null> {
+    this.assertAddress(contract, 'Invalid contract address');
+    if (!key || typeof key !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Storage key is required');
+    }
+    const result = await this.call('octra_contractStorage', [contract, key]);
+    return result == null ? null : String(result);
+  }
+
+  /**
+   * Submit a signed transaction (octra_submit).
+   */
+  async submit(signedTx: SignedTransaction): Promise<TransactionResult> {
+    if (!signedTx || typeof signedTx !== 'object') {
+      throw new ZeroXIOWalletError(ErrorCode.MALFORMED_TRANSACTION, 'signedTx must be an object');
+    }
+    const result = await this.call('octra_submit', [signedTx]);
+    const hash: string = result?.tx_hash ?? result?.hash;
+    return {
+      hash,
+      txHash: hash,
+      accepted: true,
+      success: true,
+      status: 'pending',
+      finality: 'pending',
+      explorerUrl: this.network.explorerUrl && hash ? this.network.explorerUrl + hash : undefined,
+    };
+  }
+
+  /**
+   * Submit several signed transactions in one request (octra_submitBatch).
+   * Per-transaction failures are reported in the result instead of thrown.
+   */
+  async submitBatch(signedTxs: SignedTransaction[]): Promise<BatchTransactionResult> {
+    if (!Array.isArray(signedTxs) || signedTxs.length === 0) {
+      throw new ZeroXIOWalletError(ErrorCode.MALFORMED_TRANSACTION, 'signedTxs must be a non-empty array');
+    }
+    const result = await this.call('octra_submitBatch', [signedTxs]);
+    return normalizeBatchResults(result, signedTxs.length, this.network.explorerUrl);
+  }
+
+  private assertAddress(address: string, message = 'Invalid address'): void {
+    if (!isValidAddress(address)) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, message);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * 0xio SDK — Session persistence
+ *
+ * Opt-in (SDKConfig.persistSession) record of the last connection — adapter,
+ * address, network and permissions — so a reloaded page can restore the session
+ * silently through getConnectionStatus() instead of calling connect() again.
+ * Nothing secret is stored: the wallet stays the authority on whether the origin
+ * is still authorized.
+ */
+
+import type { ConnectionInfo, Permission } from './types';
+import { createLogger } from './utils';
+
+/** Key/value backend; methods may be sync (Web Storage) or async (IndexedDB) */
+export interface SessionStore {
+  get(key: string): string | null | Promise<string | null>;
+  set(key: string, value: string): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+export type SessionStorageKind = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory';
+
+export interface SessionPersistenceOptions {
+  /** Built-in backend or a custom store (default 'localStorage', memory when unavailable) */
+  readonly storage?: SessionStorageKind | SessionStore;
+  /** Storage key (default '0xio:session:<appName>') */
+  readonly key?: string;
+  /** Ignore sessions saved longer ago than this, in ms (default: no limit) */
+  readonly maxAge?: number;
+}
+
+export interface PersistedSession {
+  readonly version: 1;
+  /** WalletTransportAdapter.name the session was made with */
+  readonly adapter: string;
+  readonly address: string;
+  readonly networkId: string;
+  readonly permissions: Permission[];
+  readonly savedAt: number;
+}
+
+/**
+ * In-memory store — survives nothing, useful for tests and SSR.
+ */
+export function createMemorySessionStore(): SessionStore {
+  const entries = new Map<string, string>();
+  return {
+    get: (key) => entries.get(key) ?? null,
+    set: (key, value) => { entries.set(key, value); },
+    remove: (key) => { entries.delete(key); },
+  };
+}
+
+/**
+ * Wrap a Web Storage area (localStorage / sessionStorage).
+ */
+export function createWebStorageSessionStore(storage: Storage): SessionStore {
+  return {
+    get: (key) => storage.getItem(key),
+    set: (key, value) => storage.setItem(key, value),
+    remove: (key) => storage.removeItem(key),
+  };
+}
+
+/**
+ * IndexedDB-backed store (one object store of string values).
+ */
+export function createIndexedDBSessionStore(
+  options: { dbName?: string; storeName?: string } = {}
+): SessionStore {
+  const dbName = options.dbName ?? '0xio-sdk';
+  const storeName = options.storeName ?? 'sessions';
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = op(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: async (key) => (await run<string | undefined>('readonly', (s) => s.get(key))) ?? null,
+    set: async (key, value) => { await run('readwrite', (s) => s.put(value, key)); },
+    remove: async (key) => { await run('readwrite', (s) => s.delete(key)); },
+  };
+}
+
+function webStorage(kind: 'localStorage' | 'sessionStorage'): Storage | null {
+  try {
+    const storage = typeof window !== 'undefined' ? window[kind] : undefined;
+    // Safari private mode exposes storage that throws on write
+    storage?.setItem('0xio:probe', '1');
+    storage?.removeItem('0xio:probe');
+    return storage ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a storage option to a store. Built-in backends that are unavailable
+ * (SSR, Node, disabled storage) fall back to memory.
+ */
+export function resolveSessionStore(storage: SessionStorageKind | SessionStore = 'localStorage'): SessionStore {
+  if (typeof storage === 'object') return storage;
+  switch (storage) {
+    case 'localStorage':
+    case 'sessionStorage': {
+      const area = webStorage(storage);
+      return area ? createWebStorageSessionStore(area) : createMemorySessionStore();
+    }
+    case 'indexedDB':
+      return typeof indexedDB !== 'undefined' ? createIndexedDBSessionStore() : createMemorySessionStore();
+    default:
+      return createMemorySessionStore();
+  }
+}
+
+function parseSession(raw: string | null): PersistedSession | null {
+  if (!raw) return null;
+  try {
+    const data = JSON.parse(raw);
+    if (
+      data?.version === 1 &&
+      typeof data.adapter === 'string' &&
+      typeof data.address === 'string' &&
+      typeof data.networkId === 'string' &&
+      Array.isArray(data.permissions) &&
+      typeof data.savedAt === 'number'
+    ) {
+      return data as PersistedSession;
+    }
+  } catch {
+    // fall through — corrupt entries are treated as absent
+  }
+  return null;
+}
+
+export function defaultSessionKey(appName: string): string {
+  return `0xio:session:${appName}`;
+}
+
+/**
+ * Read the persisted session without a wallet instance — e.g. to pick the
+ * adapter it was made with before constructing ZeroXIOWallet.
+ */
+export async function loadPersistedSession(
+  appName: string,
+  options: SessionPersistenceOptions = {}
+): Promise<PersistedSession | null> {
+  return new SessionPersistence(appName, options).load();
+}
+
+/**
+ * Serializes reads and writes for one wallet instance. Storage failures are
+ * logged and swallowed — persistence must never break connect/disconnect.
+ */
+export class SessionPersistence {
+  private readonly store: SessionStore;
+  private readonly key: string;
+  private readonly maxAge?: number;
+  private readonly logger: ReturnType<typeof createLogger>;
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Last session saved or loaded; null once cleared */
+  private current: PersistedSession | null = null;
+
+  constructor(appName: string, options: SessionPersistenceOptions = {}, debug = false) {
+    this.store = resolveSessionStore(options.storage);
+    this.key = options.key ?? defaultSessionKey(appName);
+    this.maxAge = options.maxAge;
+    this.logger = createLogger('SessionPersistence', debug);
+  }
+
+  get session(): PersistedSession | null {
+    return this.current;
+  }
+
+  load(): Promise<PersistedSession | null> {
+    return this.enqueue(async () => {
+      const session = parseSession(await this.store.get(this.key));
+      if (session && this.maxAge !== undefined && Date.now() - session.savedAt > this.maxAge) {
+        await this.store.remove(this.key);
+        this.current = null;
+        return null;
+      }
+      this.current = session;
+      return session;
+    }, null);
+  }
+
+  save(info: ConnectionInfo, adapter: string): Promise<void> {
+    if (!info.isConnected || !info.address || !info.networkInfo) {
+      return this.clear();
+    }
+    const session: PersistedSession = {
+      version: 1,
+      adapter,
+      address: info.address,
+      networkId: info.networkInfo.id,
+      permissions: info.permissions ?? [],
+      savedAt: Date.now(),
+    };
+    this.current = session;
+    return this.enqueue(() => this.store.set(this.key, JSON.stringify(session)), undefined);
+  }
+
+  clear(): Promise<void> {
+    this.current = null;
+    return this.enqueue(() => this.store.remove(this.key), undefined);
+  }
+
+  private enqueue<T>(op: () => T | Promise<T>, fallback: T): Promise<T> {
+    const next = this.queue.then(op).catch((error) => {
+      this.logger.warn('Session storage failed:', error);
+      return fallback;
+    });
+    this.queue = next;
+    return next;
+  }
+}
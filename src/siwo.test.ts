@@ -0,0 +1,172 @@
+import { createPrivateKey, sign } from 'crypto';
+import {
+  createSiwoMessage,
+  formatSiwoMessage,
+  parseSiwoMessage,
+  verifySiwoMessage,
+  SiwoFailureReason,
+  SiwoMessage,
+} from './siwo';
+import { deriveOctraAddress } from './utils';
+import { ErrorCode } from './types';
+
+// RFC 8032 TEST 1 key pair
+const SECRET_KEY = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+const PUBLIC_KEY = Buffer.from('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a', 'hex').toString('base64');
+const OTHER_ADDRESS = 'oct26LiaGUz78Jnby2TWEHcmboKHyupnu1NX1G3Evz28YHm';
+
+const ISSUED_AT = '2026-10-19T12:00:00.000Z';
+const NOW = Date.parse('2026-10-19T12:05:00.000Z');
+
+function signText(text: string): string {
+  const key = createPrivateKey({
+    key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.from(SECRET_KEY, 'hex')]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  return sign(null, Buffer.from(text, 'utf8'), key).toString('base64');
+}
+
+async function expectFailure(promise: Promise<unknown>, reason: SiwoFailureReason): Promise<void> {
+  await expect(promise).rejects.toMatchObject({ code: ErrorCode.INVALID_SIGNATURE, details: { reason } });
+}
+
+describe('SIWO', () => {
+  let address: string;
+  let message: SiwoMessage;
+  let text: string;
+
+  beforeAll(async () => {
+    address = await deriveOctraAddress(PUBLIC_KEY);
+  });
+
+  beforeEach(() => {
+    message = createSiwoMessage({
+      domain: 'app.example.com',
+      address,
+      statement: 'Sign in to Example.',
+      uri: 'https://app.example.com/login',
+      networkId: 'mainnet',
+      nonce: '3b7f2a9c61d04e58',
+      issuedAt: ISSUED_AT,
+      expirationTime: '2026-10-19T12:10:00.000Z',
+      notBefore: ISSUED_AT,
+      requestId: '42',
+      resources: ['https://app.example.com/terms', 'ipfs://bafybeigdyrzt'],
+    });
+    text = formatSiwoMessage(message);
+  });
+
+  it('formats the canonical text', () => {
+    expect(text).toBe([
+      'app.example.com wants you to sign in with your Octra account:',
+      address,
+      '',
+      'Sign in to Example.',
+      '',
+      'URI: https://app.example.com/login',
+      'Version: 1',
+      'Network ID: mainnet',
+      'Nonce: 3b7f2a9c61d04e58',
+      `Issued At: ${ISSUED_AT}`,
+      'Expiration Time: 2026-10-19T12:10:00.000Z',
+      `Not Before: ${ISSUED_AT}`,
+      'Request ID: 42',
+      'Resources:',
+      '- https://app.example.com/terms',
+      '- ipfs://bafybeigdyrzt',
+    ].join('\n'));
+  });
+
+  it('round-trips through parse and format', () => {
+    expect(parseSiwoMessage(text)).toEqual(message);
+
+    const minimal = createSiwoMessage({
+      domain: 'localhost:3000',
+      address,
+      uri: 'http://localhost:3000',
+      networkId: 'devnet',
+      nonce: 'abcdefgh',
+      issuedAt: new Date(ISSUED_AT),
+    });
+    const minimalText = formatSiwoMessage(minimal);
+    expect(minimalText.split('\n')).toHaveLength(8);
+    expect(parseSiwoMessage(minimalText)).toEqual(minimal);
+  });
+
+  it('rejects text that is not in canonical form', () => {
+    const variants = [
+      text.replace(/\n/g, '\r\n'),
+      `${text}\n`,
+      text.replace('Version: 1', 'Version:  1'),
+      // fields out of order
+      text.replace('Version: 1\nNetwork ID: mainnet', 'Network ID: mainnet\nVersion: 1'),
+      text.replace('Sign in to Example.\n\n', 'Sign in to Example.\n'),
+      text.replace(' wants you to sign in', ' wants you to log in'),
+      // parses, but formats without the empty list
+      `${formatSiwoMessage({ ...message, resources: undefined })}\nResources:`,
+    ];
+    for (const variant of variants) {
+      expect(() => parseSiwoMessage(variant)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_PARAMS }));
+    }
+  });
+
+  it('rejects invalid fields when building a message', () => {
+    const fields = { ...message, issuedAt: ISSUED_AT };
+    expect(() => createSiwoMessage({ ...fields, nonce: 'short' })).toThrow(/nonce/);
+    expect(() => createSiwoMessage({ ...fields, domain: 'https://app.example.com' })).toThrow(/domain/);
+    expect(() => createSiwoMessage({ ...fields, statement: 'two\nlines' })).toThrow(/statement/);
+    expect(() => createSiwoMessage({ ...fields, expirationTime: '19 Oct 2026' })).toThrow(/expirationTime/);
+  });
+
+  it('verifies a signed message and resolves with it', async () => {
+    const signature = signText(text);
+    const options = { domain: 'app.example.com', nonce: '3b7f2a9c61d04e58', networkId: 'mainnet', time: NOW };
+
+    await expect(verifySiwoMessage(text, signature, PUBLIC_KEY, options)).resolves.toEqual(message);
+    await expect(verifySiwoMessage(message, signature, PUBLIC_KEY, options)).resolves.toEqual(message);
+  });
+
+  it('reports malformed messages', async () => {
+    const tampered = text.replace('Version: 1', 'Version: 2');
+    await expectFailure(verifySiwoMessage(tampered, signText(tampered), PUBLIC_KEY, { time: NOW }), 'malformed');
+    await expectFailure(verifySiwoMessage(`${text}\n`, signText(`${text}\n`), PUBLIC_KEY, { time: NOW }), 'malformed');
+  });
+
+  it('reports a signature over different text', async () => {
+    const signature = signText(text);
+    const altered = text.replace('Request ID: 42', 'Request ID: 43');
+
+    await expectFailure(verifySiwoMessage(altered, signature, PUBLIC_KEY, { time: NOW }), 'signature');
+    await expectFailure(verifySiwoMessage(text, Buffer.alloc(63).toString('base64'), PUBLIC_KEY, { time: NOW }), 'signature');
+  });
+
+  it('reports a key that does not belong to the address', async () => {
+    const foreign = formatSiwoMessage({ ...message, address: OTHER_ADDRESS });
+
+    await expectFailure(verifySiwoMessage(foreign, signText(foreign), PUBLIC_KEY, { time: NOW }), 'address');
+    await expectFailure(verifySiwoMessage(text, signText(text), Buffer.alloc(31).toString('base64'), { time: NOW }), 'address');
+  });
+
+  it('reports a domain, nonce or network other than expected', async () => {
+    const signature = signText(text);
+
+    await expectFailure(verifySiwoMessage(text, signature, PUBLIC_KEY, { domain: 'evil.example.com', time: NOW }), 'domain');
+    await expectFailure(verifySiwoMessage(text, signature, PUBLIC_KEY, { nonce: 'ffffffffffffffff', time: NOW }), 'nonce');
+    await expectFailure(verifySiwoMessage(text, signature, PUBLIC_KEY, { networkId: 'devnet', time: NOW }), 'network');
+  });
+
+  it('enforces the validity window', async () => {
+    const signature = signText(text);
+
+    await expectFailure(
+      verifySiwoMessage(text, signature, PUBLIC_KEY, { time: new Date('2026-10-19T12:10:00.000Z') }),
+      'expired'
+    );
+    await expectFailure(
+      verifySiwoMessage(text, signature, PUBLIC_KEY, { time: Date.parse(ISSUED_AT) - 1 }),
+      'not_yet_valid'
+    );
+    await expect(verifySiwoMessage(text, signature, PUBLIC_KEY, { time: Date.parse(ISSUED_AT) })).resolves.toEqual(message);
+  });
+});
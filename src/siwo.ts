@@ -0,0 +1,392 @@
+/**
+ * 0xio SDK — Sign-In With Octra (SIWO)
+ *
+ * A structured, human-readable sign-in message modelled on EIP-4361, plus a
+ * verifier for the relying server. The canonical text form is:
+ *
+ * ```
+ * app.example.com wants you to sign in with your Octra account:
+ * oct26LiaGUz78Jnby2TWEHcmboKHyupnu1NX1G3Evz28YHm
+ *
+ * Sign in to Example.
+ *
+ * URI: https://app.example.com/login
+ * Version: 1
+ * Network ID: mainnet
+ * Nonce: 3b7f2a9c61d04e58
+ * Issued At: 2026-10-19T12:00:00.000Z
+ * Expiration Time: 2026-10-19T12:10:00.000Z
+ * Not Before: 2026-10-19T12:00:00.000Z
+ * Request ID: 42
+ * Resources:
+ * - https://app.example.com/terms
+ * ```
+ *
+ * The statement and every line after "Issued At" are optional. The wallet signs
+ * the UTF-8 bytes of this text with the account's Ed25519 key.
+ */
+
+import { ErrorCode, RequestOptions, ZeroXIOWalletError } from './types';
+import { base64ToBytes, deriveOctraAddress, isValidAddress } from './utils';
+import { verifyEd25519 } from './ed25519';
+
+export interface SiwoMessage {
+  /** RFC 3986 authority requesting the sign-in (host[:port]) */
+  readonly domain: string;
+  /** Octra address performing the sign-in */
+  readonly address: string;
+  /** Human-readable assertion shown to the user; single line */
+  readonly statement?: string;
+  /** URI of the resource that is the subject of the sign-in */
+  readonly uri: string;
+  /** Message format version — always '1' */
+  readonly version: '1';
+  /** Network the session is bound to (NetworkInfo.id) */
+  readonly networkId: string;
+  /** Server-issued one-time value, at least 8 alphanumeric characters */
+  readonly nonce: string;
+  /** ISO 8601 timestamp */
+  readonly issuedAt: string;
+  /** ISO 8601 timestamp after which the message is no longer valid */
+  readonly expirationTime?: string;
+  /** ISO 8601 timestamp before which the message is not yet valid */
+  readonly notBefore?: string;
+  /** Opaque request identifier for the relying party */
+  readonly requestId?: string;
+  /** URIs the user wishes to have resolved as part of the sign-in */
+  readonly resources?: readonly string[];
+}
+
+/** Fields accepted by createSiwoMessage — timestamps may be Dates, version and issuedAt have defaults */
+export interface SiwoMessageFields extends Omit<SiwoMessage, 'version' | 'issuedAt' | 'expirationTime' | 'notBefore'> {
+  readonly version?: '1';
+  readonly issuedAt?: Date | string;
+  readonly expirationTime?: Date | string;
+  readonly notBefore?: Date | string;
+}
+
+export interface SiwoVerifyOptions {
+  /** Expected domain — reject messages minted for another site */
+  readonly domain?: string;
+  /** Expected nonce — the one the server issued for this sign-in */
+  readonly nonce?: string;
+  /** Expected network ID */
+  readonly networkId?: string;
+  /** Reference time for the expiry checks (default: now) */
+  readonly time?: Date | number;
+}
+
+/** Options for ZeroXIOWallet.signInWithOctra — address and network come from the connection */
+export interface SiwoSignInOptions extends Partial<Omit<SiwoMessageFields, 'address' | 'networkId' | 'nonce'>>, RequestOptions {
+  /** Server-issued nonce (see generateSiwoNonce) */
+  readonly nonce: string;
+}
+
+export interface SiwoSignInResult {
+  readonly message: SiwoMessage;
+  /** Exact text that was signed — send this to the server */
+  readonly text: string;
+  /** Base64 Ed25519 signature */
+  readonly signature: string;
+  /** Base64 Ed25519 public key of the signing account */
+  readonly publicKey: string;
+}
+
+/** Why verifySiwoMessage rejected a message — found in `error.details.reason` */
+export type SiwoFailureReason =
+  | 'malformed'
+  | 'signature'
+  | 'address'
+  | 'domain'
+  | 'nonce'
+  | 'network'
+  | 'expired'
+  | 'not_yet_valid';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Octra account:';
+const NONCE_RE = /^[A-Za-z0-9]{8,}$/;
+const DOMAIN_RE = /^[^\s/?#@]+$/;
+const URI_RE = /^[A-Za-z][A-Za-z0-9+.-]*:\S+$/;
+const ISO_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function invalid(message: string): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, `Invalid SIWO message: ${message}`);
+}
+
+function failure(reason: SiwoFailureReason, message: string): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_SIGNATURE, message, { reason });
+}
+
+function toTimestamp(value: Date | string | undefined, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) throw invalid(`${field} is not a valid date`);
+    return value.toISOString();
+  }
+  return value;
+}
+
+function assertSiwoMessage(message: SiwoMessage): void {
+  if (!message.domain || !DOMAIN_RE.test(message.domain)) {
+    throw invalid(`domain "${message.domain}" must be a host[:port] authority`);
+  }
+  if (!isValidAddress(message.address)) {
+    throw invalid(`address "${message.address}" is not a valid Octra address`);
+  }
+  if (message.statement !== undefined && (/[\r\n]/.test(message.statement) || message.statement.startsWith('URI: '))) {
+    throw invalid('statement must be a single line and cannot start with "URI: "');
+  }
+  if (!URI_RE.test(message.uri ?? '')) {
+    throw invalid(`uri "${message.uri}" is not an absolute URI`);
+  }
+  if (message.version !== '1') {
+    throw invalid(`unsupported version "${message.version}"`);
+  }
+  if (!message.networkId || /\s/.test(message.networkId)) {
+    throw invalid('networkId is required');
+  }
+  if (!NONCE_RE.test(message.nonce ?? '')) {
+    throw invalid('nonce must be at least 8 alphanumeric characters');
+  }
+  const times: Array<[string, string | undefined]> = [
+    ['issuedAt', message.issuedAt],
+    ['expirationTime', message.expirationTime],
+    ['notBefore', message.notBefore],
+  ];
+  for (const [field, value] of times) {
+    if (value !== undefined && (!ISO_RE.test(value) || Number.isNaN(Date.parse(value)))) {
+      throw invalid(`${field} "${value}" is not an ISO 8601 timestamp`);
+    }
+  }
+  if (!message.issuedAt) {
+    throw invalid('issuedAt is required');
+  }
+  if (message.requestId !== undefined && /[\r\n]/.test(message.requestId)) {
+    throw invalid('requestId must be a single line');
+  }
+  for (const resource of message.resources ?? []) {
+    if (!URI_RE.test(resource)) {
+      throw invalid(`resource "${resource}" is not an absolute URI`);
+    }
+  }
+}
+
+/**
+ * Generate a random alphanumeric nonce (default 16 characters) for a sign-in challenge.
+ */
+export function generateSiwoNonce(length = 16): string {
+  if (typeof crypto === 'undefined' || !crypto.getRandomValues) {
+    throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'Web Crypto API is not available in this environment');
+  }
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const size = Math.max(8, Math.floor(length));
+  let out = '';
+  while (out.length < size) {
+    const bytes = crypto.getRandomValues(new Uint8Array(size));
+    for (let i = 0; i < bytes.length && out.length < size; i++) {
+      // 248 is the largest multiple of 62 below 256 — rejection keeps the output uniform
+      if (bytes[i] < 248) out += alphabet[bytes[i] % alphabet.length];
+    }
+  }
+  return out;
+}
+
+/**
+ * Build a validated SiwoMessage. `version` defaults to '1' and `issuedAt` to now.
+ * Throws INVALID_PARAMS.
+ */
+export function createSiwoMessage(fields: SiwoMessageFields): SiwoMessage {
+  const message: SiwoMessage = {
+    domain: fields.domain,
+    address: fields.address,
+    ...(fields.statement !== undefined ? { statement: fields.statement } : {}),
+    uri: fields.uri,
+    version: fields.version ?? '1',
+    networkId: fields.networkId,
+    nonce: fields.nonce,
+    issuedAt: toTimestamp(fields.issuedAt, 'issuedAt') ?? new Date().toISOString(),
+    ...(fields.expirationTime !== undefined ? { expirationTime: toTimestamp(fields.expirationTime, 'expirationTime') } : {}),
+    ...(fields.notBefore !== undefined ? { notBefore: toTimestamp(fields.notBefore, 'notBefore') } : {}),
+    ...(fields.requestId !== undefined ? { requestId: fields.requestId } : {}),
+    ...(fields.resources !== undefined ? { resources: [...fields.resources] } : {}),
+  };
+  assertSiwoMessage(message);
+  return message;
+}
+
+/**
+ * Serialize a message to the canonical text the wallet signs.
+ */
+export function formatSiwoMessage(message: SiwoMessage): string {
+  assertSiwoMessage(message);
+
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ''];
+  if (message.statement !== undefined) {
+    lines.push(message.statement, '');
+  }
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Network ID: ${message.networkId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  );
+  if (message.expirationTime !== undefined) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore !== undefined) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map((r) => `- ${r}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse canonical SIWO text back into a message. The text must round-trip
+ * exactly through formatSiwoMessage, so a signature over it is unambiguous.
+ * Throws INVALID_PARAMS.
+ */
+export function parseSiwoMessage(text: string): SiwoMessage {
+  if (typeof text !== 'string') {
+    throw invalid('expected a string');
+  }
+  const lines = text.split('\n');
+  let i = 0;
+  const next = (): string => {
+    if (i >= lines.length) throw invalid('unexpected end of message');
+    return lines[i++];
+  };
+  const field = (label: string, optional = false): string | undefined => {
+    const prefix = `${label}: `;
+    if (i < lines.length && lines[i].startsWith(prefix)) {
+      return lines[i++].slice(prefix.length);
+    }
+    if (optional) return undefined;
+    throw invalid(`expected "${label}" on line ${i + 1}`);
+  };
+
+  const header = next();
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw invalid('missing sign-in header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  const address = next();
+  if (next() !== '') throw invalid(`expected an empty line after the address`);
+
+  let statement: string | undefined;
+  if (i < lines.length && !lines[i].startsWith('URI: ')) {
+    statement = next();
+    if (next() !== '') throw invalid('expected an empty line after the statement');
+  }
+
+  const uri = field('URI')!;
+  const version = field('Version')!;
+  const networkId = field('Network ID')!;
+  const nonce = field('Nonce')!;
+  const issuedAt = field('Issued At')!;
+  const expirationTime = field('Expiration Time', true);
+  const notBefore = field('Not Before', true);
+  const requestId = field('Request ID', true);
+
+  let resources: string[] | undefined;
+  if (i < lines.length && lines[i] === 'Resources:') {
+    i++;
+    resources = [];
+    while (i < lines.length && lines[i].startsWith('- ')) {
+      resources.push(lines[i++].slice(2));
+    }
+  }
+  if (i < lines.length) {
+    throw invalid(`unexpected content on line ${i + 1}`);
+  }
+
+  const message: SiwoMessage = {
+    domain,
+    address,
+    ...(statement !== undefined ? { statement } : {}),
+    uri,
+    version: version as '1',
+    networkId,
+    nonce,
+    issuedAt,
+    ...(expirationTime !== undefined ? { expirationTime } : {}),
+    ...(notBefore !== undefined ? { notBefore } : {}),
+    ...(requestId !== undefined ? { requestId } : {}),
+    ...(resources !== undefined ? { resources } : {}),
+  };
+  assertSiwoMessage(message);
+  if (formatSiwoMessage(message) !== text) {
+    throw invalid('text is not in canonical form');
+  }
+  return message;
+}
+
+function decodeKeyMaterial(value: string, expectedLength: number, reason: SiwoFailureReason, label: string): Uint8Array {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(value);
+  } catch {
+    throw failure(reason, `${label} is not valid base64`);
+  }
+  if (bytes.length !== expectedLength) {
+    throw failure(reason, `${label} must be ${expectedLength} bytes (got ${bytes.length})`);
+  }
+  return bytes;
+}
+
+/**
+ * Verify a signed SIWO message on the server.
+ *
+ * Checks, in order: the message is well-formed, the Ed25519 signature over its
+ * canonical text, that `publicKey` derives to `message.address`, then the expected
+ * domain, nonce and network (when given in `options`) and the expiry window.
+ * Resolves with the parsed message; rejects with INVALID_SIGNATURE whose
+ * `details.reason` is a SiwoFailureReason.
+ *
+ * @param message   - Signed text, or the SiwoMessage it was formatted from
+ * @param signature - Base64 Ed25519 signature returned by the wallet
+ * @param publicKey - Base64 Ed25519 public key of the signing account
+ */
+export async function verifySiwoMessage(
+  message: SiwoMessage | string,
+  signature: string,
+  publicKey: string,
+  options: SiwoVerifyOptions = {}
+): Promise<SiwoMessage> {
+  let parsed: SiwoMessage;
+  let text: string;
+  try {
+    parsed = typeof message === 'string' ? parseSiwoMessage(message) : message;
+    text = typeof message === 'string' ? message : formatSiwoMessage(message);
+  } catch (error) {
+    throw failure('malformed', error instanceof Error ? error.message : String(error));
+  }
+
+  const keyBytes = decodeKeyMaterial(publicKey, 32, 'address', 'Public key');
+  const sigBytes = decodeKeyMaterial(signature, 64, 'signature', 'Signature');
+  if (!(await verifyEd25519(keyBytes, sigBytes, new TextEncoder().encode(text)))) {
+    throw failure('signature', 'Signature does not match the message');
+  }
+  if ((await deriveOctraAddress(publicKey)) !== parsed.address) {
+    throw failure('address', `Public key does not belong to ${parsed.address}`);
+  }
+
+  if (options.domain !== undefined && parsed.domain !== options.domain) {
+    throw failure('domain', `Message was issued for ${parsed.domain}, expected ${options.domain}`);
+  }
+  if (options.nonce !== undefined && parsed.nonce !== options.nonce) {
+    throw failure('nonce', 'Nonce does not match');
+  }
+  if (options.networkId !== undefined && parsed.networkId !== options.networkId) {
+    throw failure('network', `Message is for network ${parsed.networkId}, expected ${options.networkId}`);
+  }
+
+  const now = options.time instanceof Date ? options.time.getTime() : options.time ?? Date.now();
+  if (parsed.expirationTime !== undefined && now >= Date.parse(parsed.expirationTime)) {
+    throw failure('expired', `Message expired at ${parsed.expirationTime}`);
+  }
+  if (parsed.notBefore !== undefined && now < Date.parse(parsed.notBefore)) {
+    throw failure('not_yet_valid', `Message is not valid before ${parsed.notBefore}`);
+  }
+
+  return parsed;
+}
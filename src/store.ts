@@ -0,0 +1,184 @@
+/**
+ * 0xio SDK — Reactive wallet state
+ *
+ * One immutable snapshot of everything a UI renders — connection status, address,
+ * accounts, balance, network, permissions, lock state and pending transactions — kept in
+ * step by ZeroXIOWallet's event handlers. Every change produces a new frozen
+ * object, so snapshots can be compared by reference; subscribers select a slice
+ * and are only called when that slice changes.
+ */
+
+import type { Balance, NetworkInfo, Permission } from './types';
+
+export type WalletStatus = 'disconnected' | 'connected' | 'locked';
+
+export type PendingTransactionKind =
+  | 'transfer'
+  | 'contract_call'
+  | 'private_transfer'
+  | 'encrypt'
+  | 'decrypt'
+  | 'claim'
+  | 'submit';
+
+export interface PendingTransaction {
+  readonly hash: string;
+  readonly kind: PendingTransactionKind;
+  /** ms timestamp when the wallet accepted it */
+  readonly submittedAt: number;
+}
+
+export interface WalletState {
+  readonly status: WalletStatus;
+  readonly isConnected: boolean;
+  readonly isLocked: boolean;
+  readonly address: string | null;
+  /** Every authorized account; `address` is the active one */
+  readonly accounts: readonly string[];
+  readonly publicKey: string | null;
+  readonly balance: Balance | null;
+  readonly network: NetworkInfo | null;
+  readonly permissions: readonly Permission[];
+  /** Submitted this session and not yet confirmed, rejected or dropped */
+  readonly pendingTransactions: readonly PendingTransaction[];
+}
+
+export type StateSelector<T> = (state: WalletState) => T;
+export type StateListener<T> = (value: T, previous: T) => void;
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+export interface StoreSubscribeOptions<T> {
+  /** How selected values are compared (default Object.is; see shallowEqual) */
+  readonly equalityFn?: EqualityFn<T>;
+  /** Call the listener once right away with the current value */
+  readonly fireImmediately?: boolean;
+}
+
+/** Read-only view exposed as `wallet.store` */
+export interface WalletStore {
+  getState(): WalletState;
+  /**
+   * Call `listener` whenever the selected value changes. Returns an unsubscribe function.
+   */
+  subscribe<T>(
+    selector: StateSelector<T>,
+    listener: StateListener<T>,
+    options?: StoreSubscribeOptions<T>
+  ): () => void;
+  /** Listen to every snapshot change */
+  subscribe(listener: StateListener<WalletState>): () => void;
+}
+
+export const INITIAL_WALLET_STATE: WalletState = Object.freeze({
+  status: 'disconnected',
+  isConnected: false,
+  isLocked: false,
+  address: null,
+  accounts: Object.freeze([]) as readonly string[],
+  publicKey: null,
+  balance: null,
+  network: null,
+  permissions: Object.freeze([]) as readonly Permission[],
+  pendingTransactions: Object.freeze([]) as readonly PendingTransaction[],
+});
+
+/**
+ * One-level comparison for selectors that build objects or arrays,
+ * e.g. `(s) => ({ address: s.address, network: s.network })`.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a) as (keyof T)[];
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
+interface Subscription {
+  selector: StateSelector<unknown>;
+  listener: StateListener<unknown>;
+  equalityFn: EqualityFn<unknown>;
+  value: unknown;
+}
+
+/**
+ * Store implementation owned by ZeroXIOWallet. Only the wallet writes to it;
+ * applications see it through the WalletStore interface.
+ */
+export class WalletStateStore implements WalletStore {
+  private state: WalletState = INITIAL_WALLET_STATE;
+  private subscriptions = new Set<Subscription>();
+
+  getState(): WalletState {
+    return this.state;
+  }
+
+  subscribe<T>(
+    selectorOrListener: StateSelector<T> | StateListener<WalletState>,
+    listener?: StateListener<T>,
+    options: StoreSubscribeOptions<T> = {}
+  ): () => void {
+    const subscription: Subscription = listener
+      ? {
+        selector: selectorOrListener as StateSelector<unknown>,
+        listener: listener as StateListener<unknown>,
+        equalityFn: (options.equalityFn ?? Object.is) as EqualityFn<unknown>,
+        value: undefined,
+      }
+      : {
+        selector: (state) => state,
+        listener: selectorOrListener as StateListener<unknown>,
+        equalityFn: Object.is,
+        value: undefined,
+      };
+    subscription.value = subscription.selector(this.state);
+    this.subscriptions.add(subscription);
+
+    if (options.fireImmediately) {
+      subscription.listener(subscription.value, subscription.value);
+    }
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Merge a patch into the snapshot. No-op (same snapshot, no notifications)
+   * when every patched field is already identical.
+   * @internal
+   */
+  setState(patch: Partial<WalletState>): void {
+    const changed = (Object.keys(patch) as (keyof WalletState)[])
+      .some((key) => !Object.is(patch[key], this.state[key]));
+    if (!changed) return;
+
+    this.state = Object.freeze({ ...this.state, ...patch });
+
+    // snapshot so listeners may unsubscribe while being notified
+    for (const subscription of Array.from(this.subscriptions)) {
+      if (!this.subscriptions.has(subscription)) continue;
+      const previous = subscription.value;
+      let next: unknown;
+      try {
+        next = subscription.selector(this.state);
+        if (subscription.equalityFn(previous, next)) continue;
+      } catch {
+        continue;
+      }
+      subscription.value = next;
+      try {
+        subscription.listener(next, previous);
+      } catch {
+        // listener errors are swallowed so one subscriber cannot starve the rest
+      }
+    }
+  }
+
+  /** @internal */
+  reset(): void {
+    this.setState(INITIAL_WALLET_STATE);
+  }
+}
@@ -25,6 +25,8 @@ export function createZeroXIOAdapter(extraTrustedOrigins: string[] = []): Wallet
   return {
     name: '0xio',
     displayName: '0xio Wallet',
+    installUrl: 'https://chromewebstore.google.com/detail/0xio-wallet/anknhjilldkeelailocijnfibefmepcc',
+    rdns: 'xyz.0xio',
 
     detect(): boolean {
       if (typeof window === 'undefined') return false;
@@ -7,6 +7,11 @@
 
 export { ZeroXIOAdapter, createZeroXIOAdapter } from './0xio';
 export { OctraProviderAdapter, createOctraProviderAdapter } from './octra-provider';
+export type { OctraProvider, OctraProviderAdapterOptions } from './octra-provider';
+export { createLocalSignerAdapter } from './local-signer';
+export type { LocalSignerOptions } from './local-signer';
+export { createMockWalletAdapter } from './mock';
+export type { MockWalletAdapter, MockWalletOptions, MockAccount, MockAccountState, MockContract } from './mock';
 
 import type { WalletTransportAdapter } from '../adapter';
 import { ZeroXIOAdapter } from './0xio';
@@ -20,7 +25,8 @@ const REGISTERED_ADAPTERS: WalletTransportAdapter[] = [
 
 /**
  * Auto-detects the first available wallet in the current page.
- * Returns null if no supported wallet is found.
+ * Returns null if no supported wallet is found. Only one wallet can win here —
+ * use discoverWallets() to list every wallet that announces itself.
  *
  * @example
  * const adapter = detectWalletAdapter();
@@ -0,0 +1,93 @@
+import { ZeroXIOWallet } from '../wallet';
+import { ErrorCode } from '../types';
+import { getNetworkConfig } from '../config';
+import { createLocalSignerAdapter } from './local-signer';
+
+const PRIVATE_KEY = Buffer.alloc(32, 7).toString('base64');
+const RECIPIENT = 'octMock' + '2'.padStart(40, '0');
+
+/** Minimal JSON-RPC node whose reported nonce lags behind submissions, as a busy node's does */
+function fakeNode() {
+  const submitted: number[] = [];
+  const fetchFn = (async (_url: string, init: { body: string }) => {
+    const { id, method, params } = JSON.parse(init.body);
+    let result: unknown;
+    if (method === 'octra_balance') {
+      result = { balance: '100', nonce: 0, pending_nonce: 0 };
+    } else if (method === 'octra_submit') {
+      const nonce = Number(params[0].nonce);
+      submitted.push(nonce);
+      result = { tx_hash: nonce.toString(16).padStart(64, '0') };
+    } else {
+      return { status: 200, json: async () => ({ jsonrpc: '2.0', id, error: { code: -32601, message: method } }) };
+    }
+    return { status: 200, json: async () => ({ jsonrpc: '2.0', id, result }) };
+  }) as unknown as typeof fetch;
+  return { fetch: fetchFn, submitted };
+}
+
+async function setup() {
+  const node = fakeNode();
+  const wallet = new ZeroXIOWallet({
+    appName: 'Signer Test',
+    adapter: createLocalSignerAdapter({
+      privateKey: PRIVATE_KEY,
+      network: { ...getNetworkConfig('devnet'), rpcUrl: 'http://node.test' },
+      fetch: node.fetch,
+    }),
+    requiredPermissions: ['read_address', 'read_balance', 'send_transactions'],
+  });
+  await wallet.initialize();
+  await wallet.connect();
+  return { node, wallet };
+}
+
+describe('createLocalSignerAdapter nonces', () => {
+  let wallet: ZeroXIOWallet | undefined;
+
+  afterEach(() => {
+    wallet?.cleanup();
+    wallet = undefined;
+  });
+
+  it('does not reserve a nonce for a transaction that is only signed', async () => {
+    const ctx = await setup();
+    wallet = ctx.wallet;
+
+    const { signedTx } = await wallet.signTransaction({ to: RECIPIENT, amount: '1' });
+    await wallet.sendTransaction({ to: RECIPIENT, amount: '1' });
+
+    expect(signedTx.nonce).toBe('1');
+    expect(ctx.node.submitted).toEqual([1]);
+  });
+
+  it('records the nonce of a broadcast pre-signed transaction', async () => {
+    const ctx = await setup();
+    wallet = ctx.wallet;
+
+    const { signedTx } = await wallet.signTransaction({ to: RECIPIENT, amount: '1' });
+    await wallet.submitTransaction(signedTx);
+    await wallet.sendTransaction({ to: RECIPIENT, amount: '1' });
+
+    expect(ctx.node.submitted).toEqual([1, 2]);
+  });
+});
+
+describe('createLocalSignerAdapter key import', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('names the runtime requirement when Web Crypto lacks Ed25519', async () => {
+    jest.spyOn(crypto.subtle, 'importKey').mockRejectedValue(new Error('Unrecognized algorithm name'));
+    const adapter = createLocalSignerAdapter({ privateKey: PRIVATE_KEY, networkId: 'devnet' });
+    const wallet = new ZeroXIOWallet({ appName: 'Signer Test', adapter, requiredPermissions: ['read_address'] });
+    await wallet.initialize();
+
+    const error = await wallet.connect().catch((e) => e);
+    wallet.cleanup();
+
+    expect(error.code).toBe(ErrorCode.SIGNATURE_FAILED);
+    expect(error.message).toMatch(/Node\.js 20/);
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Headless local-key signer adapter.
+ *
+ * Holds an Ed25519 keypair in process memory, signs messages and transactions
+ * itself and submits them to the network's JSON-RPC endpoint (NetworkInfo.rpcUrl).
+ * Lets the regular ZeroXIOWallet API drive bots, CI jobs and server-side payouts —
+ * no browser, window or extension required.
+ *
+ * Signing payload (same as the Octra CLI): compact JSON of
+ *   { from, to_, amount (micro-OCT), nonce, ou, timestamp, [op_type, encrypted_data], [message] }
+ * signed with Ed25519; signature and public_key are attached as base64.
+ *
+ * Privacy methods (PVAC encrypt/decrypt, private transfers) need the extension's
+ * FHE engine and are rejected by this adapter.
+ *
+ * @example
+ * ```typescript
+ * import { ZeroXIOWallet, createLocalSignerAdapter } from '@0xio/sdk';
+ *
+ * const wallet = new ZeroXIOWallet({
+ *   appName: 'Payout Bot',
+ *   adapter: createLocalSignerAdapter({ privateKey: process.env.OCTRA_KEY!, networkId: 'devnet' }),
+ * });
+ * await wallet.initialize();
+ * await wallet.connect();
+ * await wallet.sendTransaction({ to: 'oct…', amount: '2.5' });
+ * ```
+ */
+
+import type { WalletTransportAdapter, AdapterRequest, AdapterIncomingMessage } from '../adapter';
+import type { NetworkInfo, Permission, SignedTransaction } from '../types';
+import { ErrorCode, ZeroXIOWalletError } from '../types';
+import { getNetworkConfig } from '../config';
+import { base64ToBytes, bytesToBase64, deriveOctraAddress } from '../utils';
+import { OctAmount, OctAmountInput } from '../amount';
+import { OctraRpcClient, normalizeTransaction } from '../rpc';
+import { hashTypedData } from '../typed-data';
+
+/** PKCS#8 DER prefix for a raw 32-byte Ed25519 seed (RFC 8410) */
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+const ALL_PERMISSIONS: Permission[] = [
+  'read_address', 'read_balance', 'read_public_key', 'send_transactions',
+  'sign_messages', 'contract_calls',
+];
+
+const UNSUPPORTED_METHODS = new Set([
+  'get_private_balance_info', 'encrypt_balance', 'decrypt_balance',
+  'send_private_transfer', 'get_pending_private_transfers', 'claim_private_transfer',
+]);
+
+export interface LocalSignerOptions {
+  /**
+   * Base64 Ed25519 private key — either the 32-byte seed or the 64-byte
+   * seed‖publicKey form exported by Octra wallets.
+   */
+  readonly privateKey: string;
+  /** Built-in network ID (default 'mainnet'). Ignored when `network` is set. */
+  readonly networkId?: string;
+  /** Full network config — use for custom RPC endpoints */
+  readonly network?: NetworkInfo;
+  /** Permissions reported on connect (default: all non-privacy permissions) */
+  readonly permissions?: Permission[];
+  /** fetch implementation (default: globalThis.fetch — Node 18+ and browsers) */
+  readonly fetch?: typeof fetch;
+}
+
+interface KeyMaterial {
+  privateKey: CryptoKey;
+  publicKey: string;
+  address: string;
+}
+
+function subtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new ZeroXIOWalletError(
+      ErrorCode.SIGNATURE_FAILED,
+      'Web Crypto API is not available in this environment (the local signer needs Node.js 20+ or a modern browser)'
+    );
+  }
+  return crypto.subtle;
+}
+
+function nonNegative(amount: OctAmountInput): OctAmount {
+  const parsed = OctAmount.from(amount);
+  if (parsed.isNegative()) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_AMOUNT, `Invalid OCT amount: ${parsed}`);
+  }
+  return parsed;
+}
+
+async function importKey(privateKeyBase64: string): Promise<KeyMaterial> {
+  let raw: Uint8Array;
+  try {
+    raw = base64ToBytes(privateKeyBase64);
+  } catch {
+    throw new ZeroXIOWalletError(ErrorCode.SIGNATURE_FAILED, 'Private key is not valid base64');
+  }
+  if (raw.length !== 32 && raw.length !== 64) {
+    throw new ZeroXIOWalletError(
+      ErrorCode.SIGNATURE_FAILED,
+      `Private key must be 32 or 64 bytes (got ${raw.length})`
+    );
+  }
+
+  const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + 32);
+  pkcs8.set(ED25519_PKCS8_PREFIX);
+  pkcs8.set(raw.subarray(0, 32), ED25519_PKCS8_PREFIX.length);
+
+  let privateKey: CryptoKey;
+  let jwk: JsonWebKey;
+  try {
+    privateKey = await subtle().importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+    jwk = await subtle().exportKey('jwk', privateKey);
+  } catch (e) {
+    if (e instanceof ZeroXIOWalletError) throw e;
+    throw new ZeroXIOWalletError(
+      ErrorCode.SIGNATURE_FAILED,
+      'Ed25519 is not supported by this Web Crypto implementation (the local signer needs Node.js 20+ or a modern browser)',
+      { cause: e instanceof Error ? e.message : String(e) }
+    );
+  }
+  const publicKey = bytesToBase64(base64ToBytes(
+    jwk.x!.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(jwk.x!.length / 4) * 4, '=')
+  ));
+
+  return { privateKey, publicKey, address: await deriveOctraAddress(publicKey) };
+}
+
+/**
+ * Creates a headless adapter that signs with a local Ed25519 key.
+ */
+export function createLocalSignerAdapter(options: LocalSignerOptions): WalletTransportAdapter {
+  let network: NetworkInfo = options.network ?? getNetworkConfig(options.networkId ?? 'mainnet');
+  let permissions: Permission[] = [...(options.permissions ?? ALL_PERMISSIONS)];
+  let rpc = new OctraRpcClient(network, { fetch: options.fetch });
+
+  let _handler: ((msg: AdapterIncomingMessage) => void) | null = null;
+  let keyPromise: Promise<KeyMaterial> | null = null;
+  let connected = false;
+  /** Highest nonce this adapter has signed — avoids reusing a nonce before the node catches up */
+  let lastNonce = 0;
+
+  const key = (): Promise<KeyMaterial> => {
+    if (!keyPromise) {
+      keyPromise = importKey(options.privateKey);
+      // allow a retry after a failed import (e.g. crypto unavailable at first call)
+      keyPromise.catch(() => { keyPromise = null; });
+    }
+    return keyPromise;
+  };
+
+  const sign = async (payload: string | Uint8Array<ArrayBuffer>): Promise<string> => {
+    const { privateKey } = await key();
+    const bytes = typeof payload === 'string' ? new TextEncoder().encode(payload) : payload;
+    const sig = await subtle().sign('Ed25519', privateKey, bytes);
+    return bytesToBase64(new Uint8Array(sig));
+  };
+
+  /** Next free nonce, without reserving it. */
+  const peekNonce = async (address: string): Promise<number> => {
+    const { pendingNonce } = await rpc.getAccount(address);
+    return Math.max(pendingNonce, lastNonce) + 1;
+  };
+
+  /** Reserve `count` sequential nonces and return the first one. */
+  const reserveNonces = async (address: string, count = 1): Promise<number> => {
+    const first = await peekNonce(address);
+    lastNonce = first + count - 1;
+    return first;
+  };
+
+  /** Hand back reserved nonces from `nonce` upward after a failed submission. */
+  const releaseNonces = (nonce: number) => {
+    if (Number.isFinite(nonce) && nonce <= lastNonce) lastNonce = nonce - 1;
+  };
+
+  /** Record the nonce of a pre-signed transaction once the node accepted it. */
+  const commitNonce = (nonce: number) => {
+    if (Number.isSafeInteger(nonce) && nonce > lastNonce) lastNonce = nonce;
+  };
+
+  const buildSignedTx = async (fields: {
+    to: string;
+    amount: OctAmountInput;
+    ou: string;
+    message?: string;
+    opType?: string;
+    method?: string;
+  }, nonce?: number): Promise<SignedTransaction> => {
+    const { address, publicKey } = await key();
+    const tx = {
+      from: address,
+      to_: fields.to,
+      amount: nonNegative(fields.amount).toMicroString(),
+      nonce: String(nonce ?? await reserveNonces(address)),
+      ou: fields.ou,
+      timestamp: String(Date.now() / 1000),
+      ...(fields.opType ? { op_type: fields.opType, encrypted_data: fields.method } : {}),
+      ...(fields.message ? { message: fields.message } : {}),
+    };
+    const signature = await sign(JSON.stringify(tx));
+    return { ...tx, signature, public_key: publicKey };
+  };
+
+  const submit = async (signedTx: SignedTransaction) => {
+    try {
+      return await rpc.submit(signedTx);
+    } catch (error) {
+      releaseNonces(Number(signedTx?.nonce));
+      throw error;
+    }
+  };
+
+  const useNetwork = (networkId: string) => {
+    network = getNetworkConfig(networkId);
+    rpc = new OctraRpcClient(network, { fetch: options.fetch });
+  };
+
+  const connectionStatus = async () => {
+    const { address, publicKey } = await key();
+    return { isConnected: true, address, accounts: [address], publicKey, networkInfo: network, permissions };
+  };
+
+  const handlers: Record<string, (params: any) => Promise<unknown> | unknown> = {
+    ping: () => ({ available: true }),
+
+    register_dapp: () => ({ success: true }),
+
+    // no popups to close — signing never waits for a user
+    cancel_request: () => ({ cancelled: false }),
+
+    connect: async (params) => {
+      if (params?.networkId && params.networkId !== network.id) {
+        useNetwork(params.networkId);
+      }
+      connected = true;
+      return connectionStatus();
+    },
+
+    disconnect: () => {
+      connected = false;
+      return { success: true };
+    },
+
+    getConnectionStatus: () => (connected ? connectionStatus() : { isConnected: false }),
+
+    // one key, one account
+    get_accounts: async () => (connected ? [(await key()).address] : []),
+
+    request_accounts: async () => [(await key()).address],
+
+    // no user to ask — requested scopes are granted
+    request_permissions: (params) => {
+      const requested: Permission[] = Array.isArray(params?.permissions) ? params.permissions : [];
+      permissions = Array.from(new Set([...permissions, ...requested]));
+      return permissions;
+    },
+
+    revoke_permissions: (params) => {
+      const revoked: Permission[] = Array.isArray(params?.permissions) ? params.permissions : [];
+      permissions = permissions.filter((p) => !revoked.includes(p));
+      return permissions;
+    },
+
+    select_account: async (params) => {
+      const { address, publicKey } = await key();
+      if (params?.address !== address) {
+        throw new ZeroXIOWalletError(ErrorCode.PERMISSION_DENIED, 'The local signer holds a single account');
+      }
+      return { address, publicKey };
+    },
+
+    getBalance: async () => {
+      const { address } = await key();
+      const { balance } = await rpc.getAccount(address);
+      return { balance, privateBalance: '0' };
+    },
+
+    get_network_info: () => network,
+
+    switch_network: (params) => {
+      const previous = network.id;
+      useNetwork(params?.networkId);
+      const switched = previous !== network.id;
+      if (switched) _handler?.({ eventType: 'networkChanged', eventData: { networkInfo: network } });
+      return { network: network.id, switched };
+    },
+
+    signMessage: async (params) => ({ signature: await sign(String(params?.message ?? '')) }),
+
+    // the digest is recomputed here rather than trusted from the request
+    sign_typed_data: async (params) => ({
+      signature: await sign(new Uint8Array(
+        await hashTypedData(params?.domain ?? {}, params?.types ?? {}, params?.message ?? {}, params?.primaryType)
+      )),
+    }),
+
+    // Sign-only: the caller may never broadcast, so the nonce is not reserved here —
+    // broadcast_only records it once the node accepts the transaction
+    sign_transaction: async (params) => {
+      let nonce: number;
+      if (params?.nonce !== undefined) {
+        nonce = Number(params.nonce);
+        if (!Number.isSafeInteger(nonce) || nonce < 1) {
+          throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, `Invalid nonce: ${String(params.nonce)}`);
+        }
+      } else {
+        nonce = await peekNonce((await key()).address);
+      }
+      return {
+        signedTx: await buildSignedTx({
+          to: params?.to,
+          amount: params?.amount,
+          ou: String(params?.feeLevel ?? 1),
+          message: params?.message,
+        }, nonce),
+      };
+    },
+
+    broadcast_only: async (params) => {
+      const result = await rpc.submit(params?.signedTx);
+      commitNonce(Number(params?.signedTx?.nonce));
+      return result;
+    },
+
+    send_transaction: async (params) =>
+      submit(await buildSignedTx({
+        to: params?.to,
+        amount: params?.amount,
+        ou: String(params?.feeLevel ?? 1),
+        message: params?.message,
+      })),
+
+    send_transactions: async (params) => {
+      const transactions: any[] = Array.isArray(params?.transactions) ? params.transactions : [];
+      const { address } = await key();
+      const first = await reserveNonces(address, transactions.length);
+
+      const signed: SignedTransaction[] = [];
+      for (let i = 0; i < transactions.length; i++) {
+        const tx = transactions[i];
+        signed.push(await buildSignedTx({
+          to: tx?.to,
+          amount: tx?.amount,
+          ou: String(tx?.feeLevel ?? 1),
+          message: tx?.message,
+        }, first + i));
+      }
+
+      let batch;
+      try {
+        batch = await rpc.submitBatch(signed);
+      } catch (error) {
+        releaseNonces(first);
+        throw error;
+      }
+      // nonces after the last accepted transaction were not consumed
+      const lastAccepted = batch.results.reduce((acc, r) => (r.accepted ? r.index : acc), -1);
+      releaseNonces(first + lastAccepted + 1);
+      return batch;
+    },
+
+    call_contract: async (params) =>
+      submit(await buildSignedTx({
+        to: params?.contract,
+        amount: params?.amount ?? '0',
+        ou: String(params?.ou ?? '10000'),
+        opType: 'call',
+        method: params?.method,
+        message: JSON.stringify(params?.params ?? []),
+      })),
+
+    simulate_contract_call: async (params) => rpc.simulateContractCall({
+      contract: params?.contract,
+      method: params?.method,
+      params: params?.params ?? [],
+      amount: params?.amount ?? '0',
+    }, params?.caller ?? (await key()).address),
+
+    contract_call_view: async (params) => rpc.contractCallView({
+      contract: params?.contract,
+      method: params?.method,
+      params: params?.params ?? [],
+      caller: params?.caller ?? (await key()).address,
+    }),
+
+    get_contract_storage: (params) => rpc.getContractStorage(params?.contract, params?.key),
+
+    get_transaction: (params) => rpc.getTransaction(params?.hash),
+
+    get_transaction_history: async (params) => {
+      const { address } = await key();
+      const page = Number(params?.page ?? 1);
+      const limit = Number(params?.limit ?? 20);
+      const result = await rpc.call('octra_transactionsByAddress', [address, limit, (page - 1) * limit]);
+      const transactions = Array.isArray(result?.transactions)
+        ? result.transactions.map(normalizeTransaction)
+        : [];
+      const totalCount = Number(result?.total ?? transactions.length);
+      return { transactions, totalCount, page, hasMore: page * limit < totalCount };
+    },
+  };
+
+  return {
+    name: 'local-signer',
+    displayName: 'Local Key Signer',
+    headless: true,
+
+    detect(): boolean {
+      return true;
+    },
+
+    postRequest(request: AdapterRequest): void {
+      const { id, method, params } = request;
+
+      (async () => {
+        try {
+          if (UNSUPPORTED_METHODS.has(method)) {
+            throw new ZeroXIOWalletError(
+              ErrorCode.PERMISSION_DENIED,
+              `${method} requires the 0xio extension (not supported by the local signer)`
+            );
+          }
+          const handler = handlers[method];
+          if (!handler) {
+            throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, `Unsupported method: ${method}`);
+          }
+          const data = await handler(params);
+          _handler?.({ requestId: id, success: true, data });
+        } catch (err: any) {
+          _handler?.({
+            requestId: id,
+            success: false,
+            error: {
+              code: err instanceof ZeroXIOWalletError ? err.code : ErrorCode.UNKNOWN_ERROR,
+              message: err?.message ?? 'Request failed',
+            },
+          });
+        }
+      })();
+    },
+
+    listen(handler: (msg: AdapterIncomingMessage) => void): () => void {
+      _handler = handler;
+      return () => { _handler = null; };
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { ZeroXIOWallet } from '../wallet';
+import { ErrorCode, ZeroXIOWalletError } from '../types';
+import { createMockWalletAdapter, MockWalletOptions } from './mock';
+
+const ALICE = 'octMock' + '1'.padStart(40, '0');
+const BOB = 'octMock' + '2'.padStart(40, '0');
+
+async function setup(options: MockWalletOptions = {}) {
+  const mock = createMockWalletAdapter({
+    accounts: [{ address: ALICE, balance: '100' }, { address: BOB }],
+    ...options,
+  });
+  const wallet = new ZeroXIOWallet({
+    appName: 'Mock Test',
+    adapter: mock,
+    requiredPermissions: ['read_address', 'read_balance', 'send_transactions', 'contract_calls'],
+  });
+  await wallet.initialize();
+  return { mock, wallet };
+}
+
+describe('MockWalletAdapter', () => {
+  let wallet: ZeroXIOWallet | undefined;
+
+  afterEach(() => {
+    wallet?.cleanup();
+    wallet = undefined;
+  });
+
+  it('connects without a window', async () => {
+    const ctx = await setup();
+    wallet = ctx.wallet;
+
+    const event = await wallet.connect();
+
+    expect(event.address).toBe(ALICE);
+    expect(wallet.isConnected()).toBe(true);
+    expect(wallet.getAddress()).toBe(ALICE);
+  });
+
+  it('debits amount plus fee and bumps the nonce on send', async () => {
+    const { mock, wallet: w } = await setup();
+    wallet = w;
+    await wallet.connect();
+
+    const result = await wallet.sendTransaction({ to: BOB, amount: '1.5' });
+
+    expect(result.hash ?? result.txHash).toBeTruthy();
+    const alice = mock.getAccountState(ALICE);
+    expect(alice.nonce).toBe(1);
+    expect(Number(alice.balance)).toBeLessThan(98.5);
+    expect(Number(alice.balance)).toBeGreaterThan(98.4);
+    expect(mock.getAccountState(BOB).balance).toBe('1.5');
+  });
+
+  it('reports the ledger balance and follows balanceChanged pushes', async () => {
+    const { mock, wallet: w } = await setup();
+    wallet = w;
+    await wallet.connect();
+
+    expect((await wallet.getBalance(true)).public).toBe(100);
+
+    const changed = wallet.waitFor('balanceChanged', undefined, 1000);
+    mock.setBalance(ALICE, '42');
+    const { data } = await changed;
+
+    expect(data.newBalance.public).toBe(42);
+    expect((await wallet.getBalance(true)).public).toBe(42);
+  });
+
+  it('surfaces scripted rejections without touching the ledger', async () => {
+    const { mock, wallet: w } = await setup();
+    wallet = w;
+    await wallet.connect();
+
+    mock.rejectNext('send_transaction');
+    const error = await wallet.sendTransaction({ to: BOB, amount: '1' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ZeroXIOWalletError);
+    expect(error.code).toBe(ErrorCode.USER_REJECTED);
+    expect(mock.getAccountState(ALICE)).toMatchObject({ balance: '100', nonce: 0 });
+  });
+
+  it('rejects sends that exceed the balance', async () => {
+    const { mock, wallet: w } = await setup();
+    wallet = w;
+    await wallet.connect();
+
+    await expect(wallet.sendTransaction({ to: BOB, amount: '1000' }))
+      .rejects.toMatchObject({ code: ErrorCode.INSUFFICIENT_BALANCE });
+    expect(mock.getAccountState(ALICE).nonce).toBe(0);
+  });
+
+  it('leaves balance and nonce unchanged when a scripted contract throws', async () => {
+    const contract = 'octMock' + '9'.padStart(40, '0');
+    const { mock, wallet: w } = await setup({
+      contracts: {
+        [contract]: {
+          call: () => {
+            throw Object.assign(new Error('reverted'), { code: 'TRANSACTION_FAILED' });
+          },
+        },
+      },
+    });
+    wallet = w;
+    await wallet.connect();
+
+    await expect(wallet.callContract({ contract, method: 'swap', params: [], amount: '1' }))
+      .rejects.toBeInstanceOf(ZeroXIOWalletError);
+    expect(mock.getAccountState(ALICE)).toMatchObject({ balance: '100', nonce: 0 });
+  });
+});
@@ -0,0 +1,731 @@
+/**
+ * In-memory mock wallet adapter.
+ *
+ * Simulates a complete 0xio wallet without a browser extension so ZeroXIOWallet
+ * flows can be unit-tested (headless — no window or jsdom required). Balances, nonces, transaction history and pending
+ * private transfers are kept in memory and stay consistent across calls.
+ *
+ * Tests drive wallet-side behavior through the control methods:
+ *   rejectNext()     — script a rejection for the next call of a method
+ *   lock() / unlock() — emit extensionLocked / extensionUnlocked
+ *   switchAccount()  — emit accountChanged (and accountsChanged for a newly authorized account)
+ *   switchNetwork()  — emit networkChanged
+ *
+ * @example
+ * ```typescript
+ * import { ZeroXIOWallet, createMockWalletAdapter } from '@0xio/sdk';
+ *
+ * const mock = createMockWalletAdapter({ accounts: [{ address: 'oct…', balance: '100' }] });
+ * const wallet = new ZeroXIOWallet({ appName: 'Test', adapter: mock });
+ * await wallet.initialize();
+ * await wallet.connect();
+ *
+ * mock.rejectNext('send_transaction');
+ * await expect(wallet.sendTransaction({ to: 'oct…', amount: '1' })).rejects.toThrow();
+ * ```
+ */
+
+import type { WalletTransportAdapter, AdapterRequest, AdapterIncomingMessage } from '../adapter';
+import type {
+  Balance,
+  Permission,
+  Transaction,
+  PendingPrivateTransfer,
+  SignedTransaction
+} from '../types';
+import { getNetworkConfig, createExactBalance } from '../config';
+import { bytesToBase64 } from '../utils';
+import { OctAmount, OctAmountInput } from '../amount';
+
+/** Fee charged per fee level for plain transfers (micro-OCT): level 1 = 0.001 OCT, level 3 = 0.003 OCT */
+const FEE_PER_LEVEL_MICRO = BigInt(1000);
+const DEFAULT_SIMULATED_OU = 1000;
+
+const ALL_PERMISSIONS: Permission[] = [
+  'read_address', 'read_balance', 'read_public_key', 'send_transactions',
+  'sign_messages', 'contract_calls', 'view_private_balance', 'view_encrypted_balance',
+  'private_transfers', 'encrypt_balance', 'decrypt_balance', 'stealth_scan', 'stealth_claim',
+];
+
+export interface MockAccount {
+  /** Octra address (oct-prefixed, 47 chars) */
+  readonly address: string;
+  /** Base64 Ed25519 public key. When set it must derive to `address` — connect() verifies the binding. */
+  readonly publicKey?: string;
+  /** Public balance in OCT (default '0') */
+  readonly balance?: OctAmountInput;
+  /** Encrypted (private) balance in OCT (default '0') */
+  readonly privateBalance?: OctAmountInput;
+  /** Starting account nonce (default 0) */
+  readonly nonce?: number;
+}
+
+/** Scripted contract behavior — keyed by contract address in MockWalletOptions.contracts */
+export interface MockContract {
+  /** Handles call_contract; the return value is attached to the TransactionResult as `result` */
+  call?(method: string, params: ReadonlyArray<unknown>, caller: string): unknown;
+  /** Handles contract_call_view */
+  view?(method: string, params: ReadonlyArray<unknown>, caller?: string): unknown;
+  /** Handles simulate_contract_call (default: succeeds, consuming 1000 OU) */
+  simulate?(method: string, params: ReadonlyArray<unknown>, caller: string): {
+    result?: unknown;
+    ouConsumed?: number;
+    revertReason?: string;
+  };
+  /** Storage returned by get_contract_storage */
+  storage?: Record<string, string>;
+}
+
+export interface MockWalletOptions {
+  /** Accounts held by the wallet; the first is active. Defaults to two empty accounts. */
+  readonly accounts?: MockAccount[];
+  /** Active network ID (default 'mainnet') */
+  readonly networkId?: string;
+  /** Permissions granted on connect. Defaults to whatever the dApp requests. */
+  readonly grantedPermissions?: Permission[];
+  /** Treat the origin as already authorized (getConnectionStatus reports connected) */
+  readonly connected?: boolean;
+  /** Start with the wallet locked */
+  readonly locked?: boolean;
+  /** Response delay in ms (default 0 — responses are still delivered asynchronously) */
+  readonly latency?: number;
+  /** Delay in ms before a submitted transaction is confirmed (default 0) */
+  readonly confirmationDelay?: number;
+  /** Scripted contracts, keyed by contract address */
+  readonly contracts?: Record<string, MockContract>;
+}
+
+export interface MockAccountState {
+  readonly address: string;
+  readonly publicKey?: string;
+  /** Public balance in OCT */
+  readonly balance: string;
+  /** Private balance in OCT */
+  readonly privateBalance: string;
+  readonly nonce: number;
+}
+
+export interface MockWalletAdapter extends WalletTransportAdapter {
+  /** Every request received, in order */
+  readonly requests: ReadonlyArray<AdapterRequest>;
+  /** Reject the next call of `method` (default USER_REJECTED) */
+  rejectNext(method: string, error?: { code: string; message: string }): void;
+  /** Lock the wallet — pending and future requests fail with WALLET_LOCKED */
+  lock(): void;
+  unlock(): void;
+  /**
+   * Make another held account active and emit accountChanged, as if the user
+   * switched in the wallet. The account becomes authorized for the origin.
+   */
+  switchAccount(address: string): void;
+  /** Switch the active network and emit networkChanged */
+  switchNetwork(networkId: string): void;
+  /** Overwrite an account's balances (OCT) and emit balanceChanged if it is active */
+  setBalance(address: string, balance: OctAmountInput, privateBalance?: OctAmountInput): void;
+  /** Push an arbitrary wallet event to the SDK */
+  emitEvent(eventType: string, eventData?: unknown): void;
+  /** Current ledger state for an account (defaults to the active one) */
+  getAccountState(address?: string): MockAccountState;
+}
+
+interface LedgerAccount {
+  address: string;
+  publicKey?: string;
+  balance: bigint;
+  privateBalance: bigint;
+  nonce: number;
+}
+
+interface StoredPrivateTransfer extends PendingPrivateTransfer {
+  readonly to: string;
+  readonly amountMicro: bigint;
+}
+
+type MockError = { code: string; message: string };
+
+function mockAddress(index: number): string {
+  return 'octMock' + String(index).padStart(40, '0');
+}
+
+function parseMicro(amount: unknown): bigint {
+  const parsed = OctAmount.from(
+    typeof amount === 'number' || amount instanceof OctAmount ? amount : String(amount ?? '')
+  );
+  if (parsed.isNegative()) {
+    throw mockError('INVALID_AMOUNT', `Invalid OCT amount: ${parsed}`);
+  }
+  return parsed.micro;
+}
+
+function formatMicro(micro: bigint): string {
+  return OctAmount.fromMicro(micro).toString();
+}
+
+function mockError(code: string, message: string): MockError {
+  return { code, message };
+}
+
+function toBase64(text: string): string {
+  return bytesToBase64(new TextEncoder().encode(text));
+}
+
+/**
+ * Creates an in-memory wallet adapter. Each call returns an independent wallet.
+ */
+export function createMockWalletAdapter(options: MockWalletOptions = {}): MockWalletAdapter {
+  const accounts = new Map<string, LedgerAccount>();
+  const seed = options.accounts?.length
+    ? options.accounts
+    : [{ address: mockAddress(1) }, { address: mockAddress(2) }];
+  for (const a of seed) {
+    accounts.set(a.address, {
+      address: a.address,
+      publicKey: a.publicKey,
+      balance: parseMicro(a.balance ?? '0'),
+      privateBalance: parseMicro(a.privateBalance ?? '0'),
+      nonce: a.nonce ?? 0,
+    });
+  }
+
+  let activeAddress = seed[0].address;
+  let networkInfo = getNetworkConfig(options.networkId ?? 'mainnet');
+  let connected = options.connected ?? false;
+  let locked = options.locked ?? false;
+  let permissions: Permission[] = connected ? (options.grantedPermissions ?? ALL_PERMISSIONS) : [];
+  // accounts the origin may see; connect authorizes the active one, request_accounts all of them
+  let authorized: string[] = connected ? [activeAddress] : [];
+  let txCounter = 0;
+  let transferCounter = 0;
+
+  const latency = options.latency ?? 0;
+  const confirmationDelay = options.confirmationDelay ?? 0;
+  const contracts = options.contracts ?? {};
+  const history: Transaction[] = [];
+  const privateTransfers: StoredPrivateTransfer[] = [];
+  const scriptedRejections = new Map<string, MockError[]>();
+  const requests: AdapterRequest[] = [];
+
+  let _handler: ((msg: AdapterIncomingMessage) => void) | null = null;
+
+  const active = (): LedgerAccount => accounts.get(activeAddress)!;
+
+  // RFC-O-1 order: the active account first
+  const authorizedAccounts = (): string[] =>
+    [activeAddress, ...authorized.filter((address) => address !== activeAddress)];
+
+  const balanceOf = (acct: LedgerAccount): Balance => {
+    return createExactBalance(OctAmount.fromMicro(acct.balance), OctAmount.fromMicro(acct.privateBalance));
+  };
+
+  const push = (eventType: string, eventData?: unknown) => {
+    setTimeout(() => _handler?.({ eventType, eventData }), latency);
+  };
+
+  const pushBalanceIfActive = (acct: LedgerAccount) => {
+    if (connected && acct.address === activeAddress) {
+      push('balanceChanged', { balance: balanceOf(acct) });
+    }
+  };
+
+  const requireConnected = () => {
+    if (!connected) throw mockError('CONNECTION_REFUSED', 'Origin is not connected');
+  };
+
+  const requireFunds = (acct: LedgerAccount, micro: bigint) => {
+    if (acct.balance < micro) {
+      throw mockError('INSUFFICIENT_BALANCE', 'Insufficient balance for this transaction');
+    }
+  };
+
+  const debit = (acct: LedgerAccount, micro: bigint) => {
+    requireFunds(acct, micro);
+    acct.balance -= micro;
+  };
+
+  /** Record a transaction as pending, then confirm it after confirmationDelay. */
+  const recordTransaction = (
+    to: string,
+    amountMicro: bigint,
+    feeMicro: bigint,
+    message?: string
+  ) => {
+    const from = active();
+    const hash = (++txCounter).toString(16).padStart(64, '0');
+    const pending: Transaction = {
+      hash,
+      from: from.address,
+      to,
+      amount: formatMicro(amountMicro),
+      fee: formatMicro(feeMicro),
+      timestamp: Date.now(),
+      status: 'pending',
+      finality: 'pending',
+      ...(message ? { message } : {}),
+    };
+    history.unshift(pending);
+
+    setTimeout(() => {
+      const idx = history.findIndex((t) => t.hash === hash);
+      if (idx === -1) return;
+      const confirmed: Transaction = {
+        ...history[idx],
+        status: 'confirmed',
+        finality: 'confirmed',
+        blockHeight: txCounter,
+      };
+      history[idx] = confirmed;
+      if (connected) {
+        push('transactionConfirmed', { txHash: hash, transaction: confirmed, confirmations: 1 });
+      }
+    }, confirmationDelay);
+
+    return {
+      hash,
+      txHash: hash,
+      accepted: true,
+      success: true,
+      status: 'pending' as const,
+      finality: 'pending' as const,
+      explorerUrl: networkInfo.explorerUrl ? networkInfo.explorerUrl + hash : undefined,
+    };
+  };
+
+  const transfer = (to: string, amount: unknown, feeLevel: unknown, message?: string) => {
+    requireConnected();
+    const from = active();
+    if (to === from.address) throw mockError('SELF_TRANSFER', 'Cannot transfer to yourself');
+    const amountMicro = parseMicro(amount);
+    const feeMicro = FEE_PER_LEVEL_MICRO * BigInt(feeLevel === 3 ? 3 : 1);
+    debit(from, amountMicro + feeMicro);
+    from.nonce++;
+    const recipient = accounts.get(to);
+    if (recipient) recipient.balance += amountMicro;
+    pushBalanceIfActive(from);
+    return recordTransaction(to, amountMicro, feeMicro, message);
+  };
+
+  const handlers: Record<string, (params: any) => unknown> = {
+    ping: () => ({ available: true }),
+
+    register_dapp: () => ({ success: true }),
+
+    // every request is answered as soon as it arrives, so there is never a popup to close;
+    // an aborted call still shows up in `requests` as cancel_request
+    cancel_request: () => ({ cancelled: false }),
+
+    connect: (params) => {
+      const requested: Permission[] = params?.permissions ?? params?.requestPermissions ?? [];
+      if (params?.networkId && params.networkId !== networkInfo.id) {
+        networkInfo = getNetworkConfig(params.networkId);
+      }
+      connected = true;
+      permissions = options.grantedPermissions ?? requested;
+      if (!authorized.includes(activeAddress)) authorized.push(activeAddress);
+      const acct = active();
+      return {
+        address: acct.address,
+        accounts: authorizedAccounts(),
+        publicKey: acct.publicKey,
+        balance: balanceOf(acct),
+        networkInfo,
+        permissions,
+      };
+    },
+
+    disconnect: () => {
+      connected = false;
+      permissions = [];
+      authorized = [];
+      return { success: true };
+    },
+
+    getConnectionStatus: () => {
+      if (!connected) return { isConnected: false };
+      const acct = active();
+      return {
+        isConnected: true,
+        address: acct.address,
+        accounts: authorizedAccounts(),
+        publicKey: acct.publicKey,
+        balance: balanceOf(acct),
+        networkInfo,
+        permissions,
+      };
+    },
+
+    getBalance: () => {
+      requireConnected();
+      const acct = active();
+      return { balance: formatMicro(acct.balance), privateBalance: formatMicro(acct.privateBalance) };
+    },
+
+    // the mock user approves every request; script refusals with rejectNext('request_permissions')
+    request_permissions: (params) => {
+      requireConnected();
+      const requested: Permission[] = Array.isArray(params?.permissions) ? params.permissions : [];
+      permissions = Array.from(new Set([...permissions, ...requested]));
+      return permissions;
+    },
+
+    revoke_permissions: (params) => {
+      requireConnected();
+      const revoked: Permission[] = Array.isArray(params?.permissions) ? params.permissions : [];
+      permissions = permissions.filter((p) => !revoked.includes(p));
+      return permissions;
+    },
+
+    get_accounts: () => (connected ? authorizedAccounts() : []),
+
+    // the mock user approves every held account
+    request_accounts: () => {
+      requireConnected();
+      const added = Array.from(accounts.keys()).filter((address) => !authorized.includes(address));
+      if (added.length > 0) {
+        authorized.push(...added);
+        push('accountsChanged', { accounts: authorizedAccounts() });
+      }
+      return authorizedAccounts();
+    },
+
+    select_account: (params) => {
+      requireConnected();
+      const address = params?.address;
+      const acct = accounts.get(address);
+      if (!acct || !authorized.includes(address)) {
+        throw mockError('PERMISSION_DENIED', 'Account is not authorized for this origin');
+      }
+      if (address !== activeAddress) {
+        activeAddress = address;
+        push('accountChanged', { address, publicKey: acct.publicKey, balance: balanceOf(acct) });
+      }
+      return { address, publicKey: acct.publicKey, balance: balanceOf(acct) };
+    },
+
+    get_network_info: () => networkInfo,
+
+    switch_network: (params) => {
+      const previous = networkInfo.id;
+      networkInfo = getNetworkConfig(params?.networkId);
+      if (previous !== networkInfo.id) push('networkChanged', { networkInfo });
+      return { network: networkInfo.id, switched: previous !== networkInfo.id };
+    },
+
+    send_transaction: (params) =>
+      transfer(params?.to, params?.amount, params?.feeLevel, params?.message),
+
+    send_transactions: (params) => {
+      requireConnected();
+      const transactions: any[] = Array.isArray(params?.transactions) ? params.transactions : [];
+      return transactions.map((tx) => {
+        try {
+          return transfer(tx?.to, tx?.amount, tx?.feeLevel, tx?.message);
+        } catch (err: any) {
+          return { accepted: false, success: false, error: mockError(err?.code ?? 'UNKNOWN_ERROR', err?.message) };
+        }
+      });
+    },
+
+    sign_transaction: (params): { signedTx: SignedTransaction } => {
+      requireConnected();
+      const acct = active();
+      const tx = {
+        from: acct.address,
+        to_: params?.to,
+        amount: parseMicro(params?.amount).toString(),
+        nonce: String(acct.nonce + 1),
+        ou: params?.feeLevel === 3 ? '3' : '1',
+        timestamp: String(Date.now() / 1000),
+        ...(params?.message ? { message: params.message } : {}),
+      };
+      return {
+        signedTx: {
+          ...tx,
+          signature: toBase64(`mock:${acct.address}:${JSON.stringify(tx)}`),
+          public_key: acct.publicKey ?? '',
+        },
+      };
+    },
+
+    broadcast_only: (params) => {
+      const signed = params?.signedTx as SignedTransaction | undefined;
+      if (!signed || signed.from !== activeAddress) {
+        throw mockError('MALFORMED_TRANSACTION', 'Signed transaction does not belong to the active account');
+      }
+      if (Number(signed.nonce) !== active().nonce + 1) {
+        throw mockError('DUPLICATE_TRANSACTION', 'Nonce already used');
+      }
+      return transfer(
+        signed.to_,
+        formatMicro(BigInt(signed.amount)),
+        signed.ou === '3' ? 3 : 1,
+        signed.message
+      );
+    },
+
+    call_contract: (params) => {
+      requireConnected();
+      const from = active();
+      const contract = contracts[params?.contract];
+      const amountMicro = parseMicro(params?.amount ?? '0');
+      // 1 OU is charged as 1 micro-OCT
+      const feeMicro = BigInt(String(params?.ou ?? '10000').replace(/\D/g, '') || '0');
+      requireFunds(from, amountMicro + feeMicro);
+      // Run the scripted handler before touching the ledger so a throwing
+      // contract leaves balance and nonce unchanged
+      const output = contract?.call?.(params?.method, params?.params ?? [], from.address);
+      debit(from, amountMicro + feeMicro);
+      from.nonce++;
+      pushBalanceIfActive(from);
+      return { ...recordTransaction(params?.contract, amountMicro, feeMicro), result: output };
+    },
+
+    simulate_contract_call: (params) => {
+      const caller = params?.caller ?? activeAddress;
+      const outcome = contracts[params?.contract]?.simulate?.(params?.method, params?.params ?? [], caller) ?? {};
+      const ouConsumed = outcome.ouConsumed ?? DEFAULT_SIMULATED_OU;
+      const needed = parseMicro(params?.amount ?? '0') + BigInt(ouConsumed);
+      const available = accounts.get(caller)?.balance ?? BigInt(0);
+      const revertReason = outcome.revertReason
+        ?? (needed > available ? 'Insufficient balance for amount + fee' : undefined);
+      return {
+        success: !revertReason,
+        result: outcome.result,
+        ou_consumed: ouConsumed,
+        ...(revertReason ? { revert_reason: revertReason } : {}),
+        fee: formatMicro(BigInt(ouConsumed)),
+      };
+    },
+
+    contract_call_view: (params) => {
+      const contract = contracts[params?.contract];
+      if (!contract?.view) throw mockError('NETWORK_ERROR', `No view handler for contract ${params?.contract}`);
+      return contract.view(params?.method, params?.params ?? [], params?.caller);
+    },
+
+    get_contract_storage: (params) =>
+      contracts[params?.contract]?.storage?.[params?.key] ?? null,
+
+    get_transaction: (params) => {
+      requireConnected();
+      return history.find((t) => t.hash === params?.hash) ?? null;
+    },
+
+    get_transaction_history: (params) => {
+      requireConnected();
+      const page = Number(params?.page ?? 1);
+      const limit = Number(params?.limit ?? 20);
+      const mine = history.filter((t) => t.from === activeAddress || t.to === activeAddress);
+      const start = (page - 1) * limit;
+      return {
+        transactions: mine.slice(start, start + limit),
+        totalCount: mine.length,
+        page,
+        hasMore: start + limit < mine.length,
+      };
+    },
+
+    signMessage: (params) => {
+      requireConnected();
+      return { signature: toBase64(`mock:${activeAddress}:${params?.message}`) };
+    },
+
+    sign_typed_data: (params) => {
+      requireConnected();
+      return { signature: toBase64(`mock:${activeAddress}:${params?.digest}`) };
+    },
+
+    get_private_balance_info: () => {
+      requireConnected();
+      const acct = active();
+      return {
+        hasPrivateBalance: acct.privateBalance > BigInt(0),
+        encryptedAmount: toBase64(`enc:${acct.privateBalance}`),
+        canDecrypt: true,
+      };
+    },
+
+    encrypt_balance: (params) => {
+      requireConnected();
+      const acct = active();
+      const micro = parseMicro(params?.amount);
+      debit(acct, micro);
+      acct.privateBalance += micro;
+      acct.nonce++;
+      pushBalanceIfActive(acct);
+      return recordTransaction(acct.address, micro, BigInt(0));
+    },
+
+    decrypt_balance: (params) => {
+      requireConnected();
+      const acct = active();
+      const micro = parseMicro(params?.amount);
+      if (acct.privateBalance < micro) {
+        throw mockError('INSUFFICIENT_BALANCE', 'Insufficient private balance');
+      }
+      acct.privateBalance -= micro;
+      acct.balance += micro;
+      acct.nonce++;
+      pushBalanceIfActive(acct);
+      return recordTransaction(acct.address, micro, BigInt(0));
+    },
+
+    send_private_transfer: (params) => {
+      requireConnected();
+      const from = active();
+      const micro = parseMicro(params?.amount);
+      if (params?.to === from.address) throw mockError('SELF_TRANSFER', 'Cannot transfer to yourself');
+      if (from.privateBalance < micro) {
+        throw mockError('INSUFFICIENT_BALANCE', 'Insufficient private balance');
+      }
+      from.privateBalance -= micro;
+      from.nonce++;
+      privateTransfers.push({
+        id: `mock-transfer-${++transferCounter}`,
+        from: from.address,
+        to: params.to,
+        amountMicro: micro,
+        encryptedAmount: toBase64(`enc:${micro}`),
+        message: params?.message,
+        timestamp: Date.now(),
+        canClaim: true,
+      });
+      pushBalanceIfActive(from);
+      return recordTransaction(params.to, BigInt(0), BigInt(0), params?.message);
+    },
+
+    get_pending_private_transfers: (): PendingPrivateTransfer[] => {
+      requireConnected();
+      return privateTransfers
+        .filter((t) => t.to === activeAddress)
+        .map(({ id, from, encryptedAmount, message, timestamp, canClaim }) => ({
+          id, from, encryptedAmount, message, timestamp, canClaim,
+        }));
+    },
+
+    claim_private_transfer: (params) => {
+      requireConnected();
+      const idx = privateTransfers.findIndex(
+        (t) => t.id === params?.transferId && t.to === activeAddress
+      );
+      if (idx === -1) throw mockError('TRANSACTION_FAILED', 'Unknown private transfer');
+      const [claimed] = privateTransfers.splice(idx, 1);
+      const acct = active();
+      acct.privateBalance += claimed.amountMicro;
+      acct.nonce++;
+      pushBalanceIfActive(acct);
+      return recordTransaction(acct.address, BigInt(0), BigInt(0));
+    },
+  };
+
+  const respond = (msg: AdapterIncomingMessage) => {
+    setTimeout(() => _handler?.(msg), latency);
+  };
+
+  return {
+    name: 'mock',
+    displayName: 'Mock Wallet',
+    headless: true,
+    requests,
+
+    detect(): boolean {
+      return true;
+    },
+
+    postRequest(request: AdapterRequest): void {
+      requests.push(request);
+      const { id, method, params } = request;
+
+      const scripted = scriptedRejections.get(method)?.shift();
+      if (scripted) {
+        respond({ requestId: id, success: false, error: scripted });
+        return;
+      }
+      if (locked && method !== 'ping') {
+        respond({ requestId: id, success: false, error: mockError('WALLET_LOCKED', 'Wallet is locked') });
+        return;
+      }
+
+      const handler = handlers[method];
+      if (!handler) {
+        respond({ requestId: id, success: false, error: mockError('UNKNOWN_ERROR', `Unsupported method: ${method}`) });
+        return;
+      }
+
+      try {
+        respond({ requestId: id, success: true, data: handler(params) });
+      } catch (err: any) {
+        const error = err && typeof err.code === 'string'
+          ? mockError(err.code, err.message)
+          : mockError('UNKNOWN_ERROR', String(err?.message ?? err));
+        respond({ requestId: id, success: false, error });
+      }
+    },
+
+    listen(handler: (msg: AdapterIncomingMessage) => void): () => void {
+      _handler = handler;
+      return () => { _handler = null; };
+    },
+
+    rejectNext(method: string, error = mockError('USER_REJECTED', 'User rejected the request')): void {
+      const queue = scriptedRejections.get(method) ?? [];
+      queue.push(error);
+      scriptedRejections.set(method, queue);
+    },
+
+    lock(): void {
+      if (locked) return;
+      locked = true;
+      push('extensionLocked', {});
+    },
+
+    unlock(): void {
+      if (!locked) return;
+      locked = false;
+      push('extensionUnlocked', {});
+    },
+
+    switchAccount(address: string): void {
+      const acct = accounts.get(address);
+      if (!acct) throw new Error(`Mock wallet does not hold account ${address}`);
+      if (address === activeAddress) return;
+      activeAddress = address;
+      if (connected) {
+        push('accountChanged', { address, publicKey: acct.publicKey, balance: balanceOf(acct) });
+        if (!authorized.includes(address)) {
+          authorized.push(address);
+          push('accountsChanged', { accounts: authorizedAccounts() });
+        }
+      }
+    },
+
+    switchNetwork(networkId: string): void {
+      if (networkId === networkInfo.id) return;
+      networkInfo = getNetworkConfig(networkId);
+      if (connected) push('networkChanged', { networkInfo });
+    },
+
+    setBalance(address: string, balance: OctAmountInput, privateBalance?: OctAmountInput): void {
+      const acct = accounts.get(address);
+      if (!acct) throw new Error(`Mock wallet does not hold account ${address}`);
+      acct.balance = parseMicro(balance);
+      if (privateBalance != null) acct.privateBalance = parseMicro(privateBalance);
+      pushBalanceIfActive(acct);
+    },
+
+    emitEvent(eventType: string, eventData: unknown = {}): void {
+      push(eventType, eventData);
+    },
+
+    getAccountState(address = activeAddress): MockAccountState {
+      const acct = accounts.get(address);
+      if (!acct) throw new Error(`Mock wallet does not hold account ${address}`);
+      return {
+        address: acct.address,
+        publicKey: acct.publicKey,
+        balance: formatMicro(acct.balance),
+        privateBalance: formatMicro(acct.privateBalance),
+        nonce: acct.nonce,
+      };
+    },
+  };
+}
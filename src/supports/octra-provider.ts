@@ -11,20 +11,50 @@
  *
  * Non-standard SDK methods (ping, register_dapp, getTransactionHistory, etc.)
  * are passed through as-is; the wallet's request() handles or rejects them.
+ *
+ * Pass `provider` to bind the adapter to one specific provider object instead of
+ * `window.octra` — discoverWallets() does this for every announced wallet.
  */
 
 import type { WalletTransportAdapter, AdapterRequest, AdapterIncomingMessage } from '../adapter';
 
+/** RFC-O-1 provider object (`window.octra`, or announced via octra:announceProvider) */
+export interface OctraProvider {
+  readonly isOctra?: boolean;
+  request(args: { method: string; params?: unknown }): Promise<unknown>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+export interface OctraProviderAdapterOptions {
+  /** Provider to talk to (default: `window.octra`, looked up on every call) */
+  readonly provider?: OctraProvider;
+  /** Adapter name (default 'octra-provider') — keep it stable, session persistence keys on it */
+  readonly name?: string;
+  readonly displayName?: string;
+  readonly icon?: string;
+  readonly installUrl?: string;
+  readonly rdns?: string;
+}
+
 /** SDK method → RFC-O-1 method name */
 const SDK_TO_RFC: Record<string, string> = {
+  get_accounts: 'octra_accounts',
+  select_account: 'octra_selectAccount',
+  request_permissions: 'octra_requestPermissions',
+  revoke_permissions: 'octra_revokePermissions',
   get_network_info: 'octra_networkInfo',
   switch_network: 'octra_switchNetwork',
   signMessage: 'octra_signMessage',
+  sign_typed_data: 'octra_signTypedData',
   send_transaction: 'octra_sendTransaction',
+  send_transactions: 'octra_sendTransactions',
   sign_transaction: 'octra_signTransaction',
   broadcast_only: 'octra_submitTransaction',
+  get_transaction: 'octra_getTransaction',
   call_contract: 'octra_sendContractTransaction',
   contract_call_view: 'octra_callContract',
+  simulate_contract_call: 'octra_simulateContractCall',
   get_private_balance_info: 'octra_getEncryptedBalance',
   encrypt_balance: 'octra_encryptBalance',
   decrypt_balance: 'octra_decryptBalance',
@@ -41,7 +71,7 @@ const RFC_TO_SDK_ERROR: Record<number, string> = {
   4901: 'NETWORK_ERROR',
 };
 
-function getProvider(): any {
+function getWindowProvider(): any {
   return typeof window !== 'undefined' ? (window as any).octra : null;
 }
 
@@ -62,6 +92,7 @@ async function rfcConnect(provider: any, params: unknown): Promise<unknown> {
     params: [{ permissions: requestPerms }],
   })) as string[];
 
+  // RFC-O-1 lists the active account first
   const address = accounts?.[0] ?? null;
 
   const [networkInfo, permissions] = await Promise.all([
@@ -69,7 +100,7 @@ async function rfcConnect(provider: any, params: unknown): Promise<unknown> {
     provider.request({ method: 'octra_permissions' }),
   ]);
 
-  return { address, networkInfo, permissions, balance: null };
+  return { address, accounts: accounts ?? [], networkInfo, permissions, balance: null };
 }
 
 /**
@@ -86,20 +117,25 @@ async function rfcConnectionStatus(provider: any): Promise<unknown> {
     provider.request({ method: 'octra_permissions' }),
   ]);
 
-  return { isConnected: true, address, networkInfo, permissions };
+  return { isConnected: true, address, accounts, networkInfo, permissions };
 }
 
-export function createOctraProviderAdapter(): WalletTransportAdapter {
+export function createOctraProviderAdapter(options: OctraProviderAdapterOptions = {}): WalletTransportAdapter {
   let _handler: ((msg: AdapterIncomingMessage) => void) | null = null;
   const _eventCleanups: Array<() => void> = [];
+  const getProvider = (): any => options.provider ?? getWindowProvider();
 
   return {
-    name: 'octra-provider',
-    displayName: 'Octra Wallet (RFC-O-1)',
+    name: options.name ?? 'octra-provider',
+    displayName: options.displayName ?? 'Octra Wallet (RFC-O-1)',
+    ...(options.icon ? { icon: options.icon } : {}),
+    ...(options.installUrl ? { installUrl: options.installUrl } : {}),
+    ...(options.rdns ? { rdns: options.rdns } : {}),
 
     detect(): boolean {
-      const p = getProvider();
-      return p?.isOctra === true;
+      // a bound provider was announced by the wallet itself — no isOctra check needed
+      if (options.provider) return true;
+      return getWindowProvider()?.isOctra === true;
     },
 
     postRequest(request: AdapterRequest): void {
@@ -123,6 +159,9 @@ export function createOctraProviderAdapter(): WalletTransportAdapter {
             data = { available: true };
           } else if (method === 'register_dapp') {
             data = { success: true };
+          } else if (method === 'cancel_request') {
+            // RFC-O-1 requests carry no id the wallet could match, so there is nothing to cancel
+            data = { cancelled: false };
           } else if (method === 'connect') {
             data = await rfcConnect(provider, params);
           } else if (method === 'disconnect') {
@@ -130,6 +169,11 @@ export function createOctraProviderAdapter(): WalletTransportAdapter {
             data = { success: true };
           } else if (method === 'getConnectionStatus') {
             data = await rfcConnectionStatus(provider);
+          } else if (method === 'request_accounts') {
+            data = await provider.request({
+              method: 'octra_requestAccounts',
+              params: [{ permissions: (params as any)?.permissions ?? [] }],
+            });
           } else {
             const rfcMethod = SDK_TO_RFC[method] ?? method;
             data = await provider.request({ method: rfcMethod, params });
@@ -154,8 +198,10 @@ export function createOctraProviderAdapter(): WalletTransportAdapter {
         handler({ eventType: 'connect', eventData: data });
       const onDisconnect = (data: any) =>
         handler({ eventType: 'disconnect', eventData: { reason: 'network_error', ...data } });
-      const onAccountsChanged = (accounts: string[]) =>
+      const onAccountsChanged = (accounts: string[]) => {
         handler({ eventType: 'accountChanged', eventData: { address: accounts?.[0] ?? null } });
+        handler({ eventType: 'accountsChanged', eventData: { accounts: accounts ?? [] } });
+      };
       const onNetworkChanged = (data: any) =>
         handler({ eventType: 'networkChanged', eventData: { networkInfo: data } });
       const onBalanceChanged = (data: any) =>
@@ -26,6 +26,7 @@
 // export const MyWalletAdapter: WalletTransportAdapter = {
 //   name: 'mywallet',
 //   displayName: 'My Wallet',
+//   installUrl: 'https://mywallet.example/install', // optional — wallet pickers link here
 //
 //   detect(): boolean {
 //     if (typeof window === 'undefined') return false;
@@ -0,0 +1,84 @@
+import { TransactionTracker } from './tracker';
+import { ErrorCode, Transaction } from './types';
+
+const HASH = 'a'.repeat(64);
+
+function confirmed(): Transaction {
+  return {
+    hash: HASH,
+    from: 'octFrom',
+    to: 'octTo',
+    amount: '1',
+    timestamp: Date.now(),
+    status: 'confirmed',
+    finality: 'confirmed',
+  } as Transaction;
+}
+
+describe('TransactionTracker', () => {
+  it('calls onStart only once wait() starts tracking', async () => {
+    const onStart = jest.fn();
+    const tracker = new TransactionTracker(HASH, async () => confirmed(), { pollInterval: 10 }, onStart);
+
+    expect(onStart).not.toHaveBeenCalled();
+
+    const wait = tracker.wait();
+    tracker.wait();
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(onStart).toHaveBeenCalledWith(tracker);
+
+    await expect(wait).resolves.toMatchObject({ hash: HASH });
+    expect(tracker.isSettled).toBe(true);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const onStart = jest.fn();
+    const controller = new AbortController();
+    controller.abort();
+    const tracker = new TransactionTracker(HASH, async () => null, { signal: controller.signal }, onStart);
+
+    await expect(tracker.wait()).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    expect(onStart).not.toHaveBeenCalled();
+  });
+
+  it('resolves from a push update after the required confirmations', async () => {
+    const tracker = new TransactionTracker(HASH, async () => null, { confirmations: 2, pollInterval: 1000 });
+    const wait = tracker.wait();
+
+    tracker.update(confirmed(), 1);
+    expect(tracker.isSettled).toBe(false);
+    tracker.update(confirmed(), 2);
+
+    await expect(wait).resolves.toMatchObject({ hash: HASH });
+  });
+
+  it('rejects confirmations > 1 when nothing reports a count', async () => {
+    const tracker = new TransactionTracker(HASH, async () => confirmed(), { confirmations: 2, pollInterval: 10 });
+
+    await expect(tracker.wait()).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+
+  it('keeps the highest count when a poll reports none', async () => {
+    const tracker = new TransactionTracker(HASH, async () => confirmed(), { confirmations: 3, pollInterval: 10 });
+    tracker.update(confirmed(), 2);
+    const wait = tracker.wait();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(tracker.confirmations).toBe(2);
+    expect(tracker.isSettled).toBe(false);
+
+    tracker.update(confirmed(), 3);
+    await expect(wait).resolves.toMatchObject({ hash: HASH });
+  });
+
+  it('counts confirmations reported by the lookup', async () => {
+    let count = 0;
+    const tracker = new TransactionTracker(
+      HASH,
+      async () => ({ ...confirmed(), confirmations: ++count }),
+      { confirmations: 3, pollInterval: 10 }
+    );
+
+    await expect(tracker.wait()).resolves.toMatchObject({ confirmations: 3 });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * 0xio SDK — Transaction lifecycle tracking
+ *
+ * Follows a transaction hash through the TransactionFinality states
+ * (pending → confirmed | rejected | dropped) by polling a lookup function and
+ * accepting push updates (transactionConfirmed events). Resolves with the final
+ * Transaction once the requested number of confirmations is reached.
+ */
+
+import {
+  Transaction,
+  TransactionFinality,
+  ErrorCode,
+  RequestOptions,
+  ZeroXIOWalletError
+} from './types';
+import { createAbortError } from './utils';
+
+export interface TransactionProgressEvent {
+  readonly hash: string;
+  readonly status: TransactionFinality;
+  readonly confirmations: number;
+  /** Latest transaction record, once the node knows about it */
+  readonly transaction?: Transaction;
+}
+
+export type TransactionProgressListener = (event: TransactionProgressEvent) => void;
+
+/** Resolves the current record for a hash, or null when the node does not know it yet. */
+export type TransactionLookup = (hash: string) => Promise<Transaction | null>;
+
+/** `signal` rejects wait() with ABORTED and stops polling */
+export interface WaitForTransactionOptions extends RequestOptions {
+  /** Confirmations required before resolving (default 1) */
+  readonly confirmations?: number;
+  /** Give up after this many ms (default 120000) */
+  readonly timeout?: number;
+  /** Lookup interval in ms (default 2000) */
+  readonly pollInterval?: number;
+}
+
+function finalityOf(transaction: Transaction): TransactionFinality {
+  if (transaction.finality) return transaction.finality;
+  return transaction.status === 'failed' ? 'rejected' : transaction.status;
+}
+
+export class TransactionTracker {
+  readonly hash: string;
+  private readonly lookup: TransactionLookup;
+  private readonly requiredConfirmations: number;
+  private readonly timeout: number;
+  private readonly pollInterval: number;
+  private readonly signal: AbortSignal | undefined;
+  private readonly onStart: ((tracker: TransactionTracker) => void) | undefined;
+
+  private _status: TransactionFinality = 'pending';
+  private _confirmations = 0;
+  private _transaction: Transaction | undefined;
+  private listeners = new Set<TransactionProgressListener>();
+
+  private promise: Promise<Transaction> | null = null;
+  private settle: { resolve: (tx: Transaction) => void; reject: (error: Error) => void } | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  private done = false;
+  // set once a push event or lookup reports an explicit confirmation count
+  private countReported = false;
+
+  /**
+   * @param onStart - Called once when wait() starts tracking; the wallet registers
+   *                  the tracker for push updates here so unawaited trackers are not retained
+   */
+  constructor(
+    hash: string,
+    lookup: TransactionLookup,
+    options: WaitForTransactionOptions = {},
+    onStart?: (tracker: TransactionTracker) => void
+  ) {
+    if (!hash || typeof hash !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Transaction hash is required');
+    }
+    this.hash = hash;
+    this.lookup = lookup;
+    this.requiredConfirmations = Math.max(1, options.confirmations ?? 1);
+    this.timeout = options.timeout ?? 120000;
+    this.pollInterval = options.pollInterval ?? 2000;
+    this.signal = options.signal;
+    this.onStart = onStart;
+  }
+
+  get status(): TransactionFinality {
+    return this._status;
+  }
+
+  get confirmations(): number {
+    return this._confirmations;
+  }
+
+  get transaction(): Transaction | undefined {
+    return this._transaction;
+  }
+
+  /** True once wait() has resolved or rejected, or stop() was called */
+  get isSettled(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Subscribe to status/confirmation changes. Returns an unsubscribe function.
+   */
+  onProgress(listener: TransactionProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start tracking (idempotent) and resolve with the final Transaction.
+   * Rejects with TRANSACTION_FAILED when the transaction is rejected or dropped,
+   * with NETWORK_ERROR on timeout and with ABORTED when the signal aborts. When more
+   * than one confirmation is required but the transaction confirms without anything
+   * reporting a count, rejects with INVALID_PARAMS instead of waiting for the timeout.
+   */
+  wait(): Promise<Transaction> {
+    if (this.promise) return this.promise;
+
+    this.promise = new Promise<Transaction>((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+
+    this.timeoutTimer = setTimeout(() => {
+      this.finish(new ZeroXIOWalletError(
+        ErrorCode.NETWORK_ERROR,
+        `Timed out after ${this.timeout}ms waiting for transaction ${this.hash}`,
+        { hash: this.hash, status: this._status, confirmations: this._confirmations }
+      ));
+    }, this.timeout);
+
+    if (this.signal?.aborted) {
+      this.onAbort();
+    } else {
+      this.signal?.addEventListener('abort', this.onAbort);
+    }
+    if (!this.done) this.onStart?.(this);
+
+    // a push update may have arrived before wait() was called
+    this.evaluate();
+    if (!this.done) this.poll();
+
+    return this.promise;
+  }
+
+  /**
+   * Feed an externally observed record (e.g. from a transactionConfirmed push event).
+   */
+  update(transaction: Transaction, confirmations?: number): void {
+    if (this.done) return;
+
+    const status = finalityOf(transaction);
+    const reported = confirmations ?? transaction.confirmations;
+    if (reported !== undefined) this.countReported = true;
+    // while confirmed the count only grows — a poll without a count must not undo a pushed one
+    const count = status === 'confirmed'
+      ? Math.max(this._status === 'confirmed' ? this._confirmations : 0, reported ?? 1)
+      : reported ?? 0;
+    const changed = status !== this._status || count !== this._confirmations;
+
+    this._transaction = transaction;
+    this._status = status;
+    this._confirmations = count;
+
+    if (changed) {
+      const event: TransactionProgressEvent = {
+        hash: this.hash,
+        status,
+        confirmations: count,
+        transaction,
+      };
+      for (const listener of Array.from(this.listeners)) {
+        try {
+          listener(event);
+        } catch {
+          // listener errors are swallowed to keep tracking alive
+        }
+      }
+    }
+
+    this.evaluate();
+  }
+
+  /**
+   * Stop tracking. A pending wait() rejects.
+   */
+  stop(): void {
+    this.finish(new ZeroXIOWalletError(
+      ErrorCode.UNKNOWN_ERROR,
+      'Transaction tracking stopped',
+      { hash: this.hash, status: this._status }
+    ));
+  }
+
+  private onAbort = (): void => {
+    this.finish(createAbortError(`Waiting for transaction ${this.hash}`, this.signal));
+  };
+
+  private evaluate(): void {
+    if (this.done || !this.settle || !this._transaction) return;
+
+    if (this._status === 'confirmed' && this._confirmations >= this.requiredConfirmations) {
+      this.finish(null, this._transaction);
+    } else if (this._status === 'confirmed' && !this.countReported) {
+      // nothing reports counts, so more than one confirmation can never be observed
+      this.finish(new ZeroXIOWalletError(
+        ErrorCode.INVALID_PARAMS,
+        `Transaction ${this.hash} is confirmed but the wallet and node report no confirmation count — ` +
+        `waiting for ${this.requiredConfirmations} confirmations is not supported here`,
+        { hash: this.hash, status: this._status, transaction: this._transaction }
+      ));
+    } else if (this._status === 'rejected' || this._status === 'dropped') {
+      this.finish(new ZeroXIOWalletError(
+        ErrorCode.TRANSACTION_FAILED,
+        `Transaction ${this.hash} was ${this._status}`,
+        { hash: this.hash, status: this._status, transaction: this._transaction }
+      ));
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.done) return;
+    try {
+      const transaction = await this.lookup(this.hash);
+      if (transaction) this.update(transaction);
+    } catch {
+      // transient lookup failures are retried on the next tick; timeout bounds the total wait
+    }
+    if (!this.done) {
+      this.pollTimer = setTimeout(() => this.poll(), this.pollInterval);
+    }
+  }
+
+  private finish(error: Error | null, transaction?: Transaction): void {
+    if (this.done) return;
+    this.done = true;
+
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer);
+    this.pollTimer = null;
+    this.timeoutTimer = null;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.listeners.clear();
+
+    if (this.settle) {
+      if (error) this.settle.reject(error);
+      else this.settle.resolve(transaction!);
+    }
+  }
+}
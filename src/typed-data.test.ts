@@ -0,0 +1,109 @@
+import { createPrivateKey, sign } from 'crypto';
+import { createTypedDataPayload, encodeTypedDataType, hashTypedData, verifyTypedData } from './typed-data';
+import { ErrorCode } from './types';
+
+const MAKER = 'oct26LiaGUz78Jnby2TWEHcmboKHyupnu1NX1G3Evz28YHm';
+
+const domain = { name: 'Dex', version: '1', networkId: 'mainnet' };
+const types = {
+  Order: [
+    { name: 'maker', type: 'address' },
+    { name: 'sell', type: 'Asset' },
+    { name: 'price', type: 'amount' },
+    { name: 'expiry', type: 'uint' },
+    { name: 'tags', type: 'string[]' },
+    { name: 'partial', type: 'bool' },
+    { name: 'delta', type: 'int' },
+  ],
+  Asset: [
+    { name: 'symbol', type: 'string' },
+    { name: 'amount', type: 'uint' },
+  ],
+};
+const order = {
+  maker: MAKER,
+  sell: { symbol: 'OCT', amount: 1000 },
+  price: '1.5',
+  expiry: 1700000000,
+  tags: ['a', 'b'],
+  partial: true,
+  delta: -5,
+};
+
+// Computed independently from the encoding rules in the module header:
+// SHA-256(0x19 ‖ 0x01 ‖ hashStruct(OctraDomain, domain) ‖ hashStruct(Order, order))
+const ORDER_DIGEST = '7bc93661a49592989ff43aa1ad63b14ae527a29d7c4af75622ba5625083fee27';
+
+// RFC 8032 TEST 1 key pair
+const SECRET_KEY = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+const PUBLIC_KEY = Buffer.from('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a', 'hex').toString('base64');
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+function signDigest(digest: Uint8Array): string {
+  const key = createPrivateKey({
+    key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.from(SECRET_KEY, 'hex')]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  return sign(null, digest, key).toString('base64');
+}
+
+describe('typed data', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('encodes the canonical type string with referenced structs sorted after the primary', () => {
+    expect(encodeTypedDataType(types, 'Order')).toBe(
+      'Order(address maker,Asset sell,amount price,uint expiry,string[] tags,bool partial,int delta)' +
+      'Asset(string symbol,uint amount)'
+    );
+  });
+
+  it('hashes to the fixture digest', async () => {
+    expect(hex(await hashTypedData(domain, types, order))).toBe(ORDER_DIGEST);
+  });
+
+  it('hashes to the same digest without Web Crypto', async () => {
+    jest.spyOn(crypto.subtle, 'digest').mockRejectedValue(new Error('digest unavailable'));
+    expect(hex(await hashTypedData(domain, types, order))).toBe(ORDER_DIGEST);
+  });
+
+  it('ignores key order in the message', async () => {
+    const reordered = {
+      delta: -5,
+      partial: true,
+      tags: ['a', 'b'],
+      expiry: '1700000000',
+      price: '1.500000',
+      sell: { amount: BigInt(1000), symbol: 'OCT' },
+      maker: MAKER,
+    };
+    expect(hex(await hashTypedData(domain, types, reordered))).toBe(ORDER_DIGEST);
+  });
+
+  it('reports the digest and inferred primary type in the wallet payload', async () => {
+    const payload = await createTypedDataPayload(domain, types, order);
+    expect(payload).toMatchObject({ primaryType: 'Order', digest: ORDER_DIGEST });
+  });
+
+  it('changes the digest when the domain changes', async () => {
+    const other = await hashTypedData({ ...domain, networkId: 'devnet' }, types, order);
+    expect(hex(other)).not.toBe(ORDER_DIGEST);
+  });
+
+  it('verifies a signature over the digest', async () => {
+    const signature = signDigest(await hashTypedData(domain, types, order));
+
+    await expect(verifyTypedData(domain, types, order, signature, PUBLIC_KEY)).resolves.toBe(true);
+    await expect(verifyTypedData(domain, types, { ...order, delta: 5 }, signature, PUBLIC_KEY)).resolves.toBe(false);
+  });
+
+  it('rejects values that do not match their types', async () => {
+    await expect(hashTypedData(domain, types, { ...order, expiry: -1 }))
+      .rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    await expect(hashTypedData(domain, types, { ...order, extra: 1 }))
+      .rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+});
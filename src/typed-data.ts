@@ -0,0 +1,414 @@
+/**
+ * 0xio SDK — Typed structured data (EIP-712 style)
+ *
+ * Deterministic hashing of typed objects so an off-chain order or permit signs
+ * the same bytes on every client, whatever order its keys were written in.
+ *
+ * ```
+ * typeHash(T)    = SHA-256("T(type1 name1,type2 name2)" + referenced struct types, sorted)
+ * hashStruct(v)  = SHA-256(typeHash(T) ‖ enc(field1) ‖ enc(field2) ‖ …)
+ * digest         = SHA-256(0x19 ‖ 0x01 ‖ hashStruct(OctraDomain, domain) ‖ hashStruct(primaryType, value))
+ * ```
+ *
+ * Every field encodes to 32 bytes: `int` / `uint` / `amount` (micro-OCT) as
+ * big-endian two's complement, `bool` as 0 / 1, `string` / `bytes` / `address`
+ * as the SHA-256 of their bytes, nested structs as their hashStruct and `T[]` as
+ * the SHA-256 of the concatenated element encodings. The wallet signs the 32-byte
+ * digest with Ed25519.
+ */
+
+import { ErrorCode, ZeroXIOWalletError } from './types';
+import { OctAmount, OctAmountInput } from './amount';
+import { base64ToBytes, bytesToBase64, isValidAddress } from './utils';
+import { sha256 } from './hash';
+import { verifyEd25519 } from './ed25519';
+
+/**
+ * Binds a signature to one app, network and (optionally) contract. Only the
+ * fields that are set take part in the domain separator.
+ */
+export interface TypedDataDomain {
+  /** Human-readable app or protocol name */
+  readonly name?: string;
+  readonly version?: string;
+  /** Network the signature is valid on (NetworkInfo.id) */
+  readonly networkId?: string;
+  /** Origin of the requesting page, e.g. 'https://dex.example.com' */
+  readonly origin?: string;
+  /** Contract that will consume the signature */
+  readonly contract?: string;
+  /** Free-form disambiguator */
+  readonly salt?: string;
+}
+
+export interface TypedDataField {
+  readonly name: string;
+  /** Base type, a struct name from `types`, or an array of either (`'Order[]'`) */
+  readonly type: string;
+}
+
+export type TypedDataTypes = Record<string, readonly TypedDataField[]>;
+
+/** JSON-safe request sent to the wallet so it can render every field */
+export interface TypedDataPayload {
+  readonly domain: TypedDataDomain;
+  readonly types: TypedDataTypes;
+  readonly primaryType: string;
+  readonly message: Record<string, unknown>;
+  /** Hex SHA-256 digest the wallet signs */
+  readonly digest: string;
+}
+
+/** signTypedData() result: what was signed, with the domain as the SDK completed it */
+export interface SignedTypedData extends TypedDataPayload {
+  /** Base64 Ed25519 signature over `digest` */
+  readonly signature: string;
+}
+
+export const TYPED_DATA_DOMAIN_TYPE = 'OctraDomain';
+
+const BASE_TYPES = new Set(['string', 'bool', 'int', 'uint', 'address', 'bytes', 'amount']);
+const DOMAIN_FIELDS: readonly TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'networkId', type: 'string' },
+  { name: 'origin', type: 'string' },
+  { name: 'contract', type: 'address' },
+  { name: 'salt', type: 'string' },
+];
+const TYPE_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const _0 = BigInt(0);
+const _1 = BigInt(1);
+const TWO_256 = _1 << BigInt(256);
+const INT_MAX = (_1 << BigInt(255)) - _1;
+const INT_MIN = -(_1 << BigInt(255));
+
+function invalid(message: string, details?: unknown): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, message, details);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function utf8(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function word(value: bigint): Uint8Array {
+  let n = value < _0 ? value + TWO_256 : value;
+  const out = new Uint8Array(32);
+  for (let i = 31; i >= 0; i--) {
+    out[i] = Number(n & BigInt(0xff));
+    n >>= BigInt(8);
+  }
+  return out;
+}
+
+function arrayElementType(type: string): string | null {
+  return type.endsWith('[]') ? type.slice(0, -2) : null;
+}
+
+function assertTypes(types: TypedDataTypes): void {
+  if (!types || typeof types !== 'object' || Array.isArray(types)) {
+    throw invalid('Typed data types must be an object of struct definitions');
+  }
+  for (const [name, fields] of Object.entries(types)) {
+    if (!TYPE_NAME_RE.test(name) || BASE_TYPES.has(name)) {
+      throw invalid(`Invalid struct type name "${name}"`);
+    }
+    if (!Array.isArray(fields)) {
+      throw invalid(`Struct ${name} must be an array of { name, type } fields`);
+    }
+    const seen = new Set<string>();
+    for (const field of fields) {
+      if (!field || !TYPE_NAME_RE.test(field.name)) {
+        throw invalid(`Struct ${name} has an invalid field name "${field?.name}"`);
+      }
+      if (seen.has(field.name)) {
+        throw invalid(`Struct ${name} declares field "${field.name}" twice`);
+      }
+      seen.add(field.name);
+      let base = field.type;
+      for (let el = arrayElementType(base); el !== null; el = arrayElementType(base)) base = el;
+      if (!BASE_TYPES.has(base) && !Object.prototype.hasOwnProperty.call(types, base)) {
+        throw invalid(`Struct ${name}.${field.name} has unknown type "${field.type}"`);
+      }
+    }
+  }
+}
+
+/** Struct types reachable from `primaryType`, primary first */
+function dependencies(types: TypedDataTypes, primaryType: string, found = new Set<string>()): Set<string> {
+  let base = primaryType;
+  for (let el = arrayElementType(base); el !== null; el = arrayElementType(base)) base = el;
+  if (found.has(base) || !Object.prototype.hasOwnProperty.call(types, base)) return found;
+  found.add(base);
+  for (const field of types[base]) dependencies(types, field.type, found);
+  return found;
+}
+
+/**
+ * The struct that no other struct references. Throws INVALID_PARAMS when there
+ * is not exactly one.
+ */
+export function getTypedDataPrimaryType(types: TypedDataTypes): string {
+  assertTypes(types);
+  const names = Object.keys(types).filter((n) => n !== TYPED_DATA_DOMAIN_TYPE);
+  const referenced = new Set<string>();
+  for (const name of names) {
+    for (const dep of dependencies(types, name)) {
+      if (dep !== name) referenced.add(dep);
+    }
+  }
+  const roots = names.filter((n) => !referenced.has(n));
+  if (roots.length !== 1) {
+    throw invalid(
+      roots.length === 0
+        ? 'Typed data has no primary type (circular struct references?)'
+        : `Typed data has several candidate primary types: ${roots.join(', ')}`
+    );
+  }
+  return roots[0];
+}
+
+/**
+ * Canonical type string, e.g. `Order(address maker,Asset sell)Asset(string symbol,uint amount)`.
+ */
+export function encodeTypedDataType(types: TypedDataTypes, primaryType: string): string {
+  assertTypes(types);
+  if (!Object.prototype.hasOwnProperty.call(types, primaryType)) {
+    throw invalid(`Unknown struct type "${primaryType}"`);
+  }
+  const [primary, ...rest] = Array.from(dependencies(types, primaryType));
+  return [primary, ...rest.sort()]
+    .map((name) => `${name}(${types[name].map((f) => `${f.type} ${f.name}`).join(',')})`)
+    .join('');
+}
+
+function parseInteger(value: unknown, path: string): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  throw invalid(`${path} must be an integer (number, bigint or decimal string)`, { path });
+}
+
+function parseBytes(value: unknown, path: string): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (typeof value === 'string') {
+    try {
+      return base64ToBytes(value);
+    } catch {
+      // reported below
+    }
+  }
+  throw invalid(`${path} must be bytes (Uint8Array, ArrayBuffer or base64 string)`, { path });
+}
+
+/** Encoded 32-byte field value plus its JSON-safe form for the wallet popup */
+interface EncodedValue {
+  readonly word: Uint8Array;
+  readonly wire: unknown;
+}
+
+async function encodeValue(types: TypedDataTypes, type: string, value: unknown, path: string): Promise<EncodedValue> {
+  const element = arrayElementType(type);
+  if (element !== null) {
+    if (!Array.isArray(value)) {
+      throw invalid(`${path} must be an array of ${element}`, { path });
+    }
+    const items = [];
+    for (let i = 0; i < value.length; i++) {
+      items.push(await encodeValue(types, element, value[i], `${path}[${i}]`));
+    }
+    return {
+      word: await sha256(concat(items.map((item) => item.word))),
+      wire: items.map((item) => item.wire),
+    };
+  }
+
+  if (Object.prototype.hasOwnProperty.call(types, type)) {
+    const { hash, wire } = await encodeStruct(types, type, value, path);
+    return { word: hash, wire };
+  }
+
+  switch (type) {
+    case 'string':
+      if (typeof value !== 'string') throw invalid(`${path} must be a string`, { path });
+      return { word: await sha256(utf8(value)), wire: value };
+    case 'bool':
+      if (typeof value !== 'boolean') throw invalid(`${path} must be a boolean`, { path });
+      return { word: word(value ? _1 : _0), wire: value };
+    case 'address':
+      if (typeof value !== 'string' || !isValidAddress(value)) {
+        throw invalid(`${path} must be a valid Octra address`, { path });
+      }
+      return { word: await sha256(utf8(value)), wire: value };
+    case 'bytes': {
+      const bytes = parseBytes(value, path);
+      return { word: await sha256(concat([bytes])), wire: bytesToBase64(bytes) };
+    }
+    case 'int':
+    case 'uint': {
+      const n = parseInteger(value, path);
+      if (type === 'uint' ? n < _0 || n >= TWO_256 : n < INT_MIN || n > INT_MAX) {
+        throw invalid(`${path} is out of range for ${type}`, { path });
+      }
+      return { word: word(n), wire: n.toString() };
+    }
+    case 'amount': {
+      let amount: OctAmount;
+      try {
+        amount = OctAmount.from(value as OctAmountInput);
+      } catch (error) {
+        throw invalid(`${path}: ${(error as Error).message}`, { path });
+      }
+      return { word: word(amount.micro), wire: amount.toString() };
+    }
+  }
+  throw invalid(`${path} has unknown type "${type}"`, { path });
+}
+
+async function encodeStruct(
+  types: TypedDataTypes,
+  type: string,
+  value: unknown,
+  path: string
+): Promise<{ hash: Uint8Array; wire: Record<string, unknown> }> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalid(`${path} must be a ${type} object`, { path });
+  }
+  const record = value as Record<string, unknown>;
+  const fields = types[type];
+  const extra = Object.keys(record).filter((k) => !fields.some((f) => f.name === k));
+  if (extra.length > 0) {
+    throw invalid(`${path} has fields not declared in ${type}: ${extra.join(', ')}`, { path });
+  }
+
+  const words: Uint8Array[] = [await sha256(utf8(encodeTypedDataType(types, type)))];
+  const wire: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (record[field.name] === undefined) {
+      throw invalid(`${path}.${field.name} is missing`, { path: `${path}.${field.name}` });
+    }
+    const encoded = await encodeValue(types, field.type, record[field.name], `${path}.${field.name}`);
+    words.push(encoded.word);
+    wire[field.name] = encoded.wire;
+  }
+  return { hash: await sha256(concat(words)), wire };
+}
+
+function domainTypes(domain: TypedDataDomain): TypedDataTypes {
+  return {
+    [TYPED_DATA_DOMAIN_TYPE]: DOMAIN_FIELDS.filter((f) => domain[f.name as keyof TypedDataDomain] !== undefined),
+  };
+}
+
+/**
+ * hashStruct(OctraDomain, domain) — the domain separator.
+ */
+export async function hashTypedDataDomain(domain: TypedDataDomain): Promise<Uint8Array> {
+  const { hash } = await encodeStruct(domainTypes(domain), TYPED_DATA_DOMAIN_TYPE, domain, 'domain');
+  return hash;
+}
+
+/**
+ * hashStruct(primaryType, value).
+ */
+export async function hashTypedDataStruct(
+  types: TypedDataTypes,
+  primaryType: string,
+  value: Record<string, unknown>
+): Promise<Uint8Array> {
+  encodeTypedDataType(types, primaryType);
+  const { hash } = await encodeStruct(types, primaryType, value, primaryType);
+  return hash;
+}
+
+async function buildTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, unknown>,
+  primaryType?: string
+): Promise<{ payload: TypedDataPayload; digest: Uint8Array }> {
+  // a domain entry in `types` is redundant — the domain struct is fixed
+  const { [TYPED_DATA_DOMAIN_TYPE]: _domainType, ...structTypes } = types;
+  const primary = primaryType ?? getTypedDataPrimaryType(structTypes);
+  encodeTypedDataType(structTypes, primary);
+
+  const domainStruct = await encodeStruct(domainTypes(domain), TYPED_DATA_DOMAIN_TYPE, domain, 'domain');
+  const message = await encodeStruct(structTypes, primary, value, primary);
+  const digest = await sha256(concat([new Uint8Array([0x19, 0x01]), domainStruct.hash, message.hash]));
+
+  return {
+    payload: {
+      domain: domainStruct.wire as TypedDataDomain,
+      types: structTypes,
+      primaryType: primary,
+      message: message.wire,
+      digest: toHex(digest),
+    },
+    digest,
+  };
+}
+
+/**
+ * Validate typed data and build what the wallet needs: the JSON-safe domain,
+ * types and message plus the digest it signs. `primaryType` is inferred when omitted.
+ */
+export async function createTypedDataPayload(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, unknown>,
+  primaryType?: string
+): Promise<TypedDataPayload> {
+  return (await buildTypedData(domain, types, value, primaryType)).payload;
+}
+
+/**
+ * The 32-byte digest a typed-data signature covers.
+ */
+export async function hashTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, unknown>,
+  primaryType?: string
+): Promise<Uint8Array> {
+  return (await buildTypedData(domain, types, value, primaryType)).digest;
+}
+
+/**
+ * Verify a `signTypedData()` signature offline. Returns false for a wrong
+ * signature or malformed key/signature; throws INVALID_PARAMS when the typed data
+ * itself does not match `types`. Pair with deriveOctraAddress() to check the signer.
+ */
+export async function verifyTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, unknown>,
+  signatureBase64: string,
+  publicKeyBase64: string
+): Promise<boolean> {
+  const digest = await hashTypedData(domain, types, value);
+  let signature: Uint8Array;
+  let publicKey: Uint8Array;
+  try {
+    signature = base64ToBytes(signatureBase64);
+    publicKey = base64ToBytes(publicKeyBase64);
+  } catch {
+    return false;
+  }
+  return verifyEd25519(publicKey, signature, digest);
+}
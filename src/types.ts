@@ -3,6 +3,8 @@
  * Comprehensive type system for 0xio wallet integration with Octra Network
  */
 
+import type { OctAmount, OctAmountInput } from './amount';
+
 // Core wallet types
 export interface WalletAddress {
   readonly address: string;
@@ -10,10 +12,17 @@ export interface WalletAddress {
 }
 
 export interface Balance {
+  /** Display value — lossy above ~9 billion OCT. Use `exact` for arithmetic. */
   readonly public: number;
   readonly private?: number;
   readonly total: number;
   readonly currency: 'OCT';
+  /** Exact micro-OCT-backed amounts, present when the source reported them precisely */
+  readonly exact?: {
+    readonly public: OctAmount;
+    readonly private: OctAmount;
+    readonly total: OctAmount;
+  };
 }
 
 export interface NetworkInfo {
@@ -31,8 +40,8 @@ export interface NetworkInfo {
 // Transaction types
 export interface TransactionData {
   readonly to: string;
-  /** Amount in OCT. Accepts string or number — use string for amounts above 9 billion OCT to avoid JS number precision loss. */
-  readonly amount: string | number;
+  /** Amount in OCT. Accepts OctAmount, a decimal string or a number — numbers lose precision above 9 billion OCT. */
+  readonly amount: OctAmountInput;
   readonly message?: string;
   readonly feeLevel?: 1 | 3; // 1 = standard, 3 = priority
   readonly isPrivate?: boolean;
@@ -40,10 +49,11 @@ export interface TransactionData {
 
 /**
  * Contract method arguments — flat array of AML-compatible values.
- * Supports primitives and base64-encoded binary data (e.g. FHE ciphers, proofs).
- * Use `[arg1, arg2]` NOT `[[arg1, arg2]]` — flat, not nested.
+ * Primitives are sent as-is; `bigint` keeps full precision and binary data
+ * (`Uint8Array` / `ArrayBuffer`, e.g. FHE ciphers, proofs) is base64-encoded
+ * automatically. Use `[arg1, arg2]` NOT `[[arg1, arg2]]` — flat, not nested.
  */
-export type ContractParam = string | number | boolean;
+export type ContractParam = string | number | boolean | bigint | Uint8Array | ArrayBuffer;
 export type ContractParams = ReadonlyArray<ContractParam>;
 
 export interface ContractCallData {
@@ -53,21 +63,35 @@ export interface ContractCallData {
   readonly method: string;
   /**
    * Method arguments — flat primitives, NOT array-wrapped.
-   * For FHE/PVAC operations, encode binary data as base64 strings:
-   * `[base64(pvacPubkey), base64(zeroCipher), base64(zeroProof)]`
+   * For FHE/PVAC operations pass the raw bytes; they are base64-encoded for you:
+   * `[pvacPubkey, zeroCipher, zeroProof]`
    */
   readonly params: ContractParams;
   /**
    * Native OCT to send with the call (in OCT, same unit as sendTransaction.amount).
    * Set to '0' for calls that don't transfer native tokens.
    */
-  readonly amount?: string | number;
+  readonly amount?: OctAmountInput;
   /**
    * Operation units / gas limit (default: 10000).
-   * Higher values for complex contract operations.
+   * Pass 'auto' to simulate the call first and use the consumed OU plus a safety
+   * margin (SDKConfig.ouSafetyMargin); calls that would revert are not submitted.
    * The approval popup shows this as the fee, separate from `amount`.
    */
-  readonly ou?: string | number;
+  readonly ou?: string | number | 'auto';
+}
+
+/** Outcome of a dry-run contract call (simulateContractCall) */
+export interface ContractSimulationResult {
+  /** False when the call would revert */
+  readonly success: boolean;
+  /** Predicted return value of the method */
+  readonly result?: any;
+  /** Operation units the call consumed */
+  readonly ouConsumed: number;
+  readonly revertReason?: string;
+  /** Fee for the consumed OU, in OCT */
+  readonly fee: OctAmount;
 }
 
 export interface ContractViewCallData {
@@ -89,6 +113,10 @@ export interface SignedTransaction {
   readonly ou: string;
   readonly timestamp: string;
   readonly message?: string;
+  /** Operation type — omitted for plain transfers, 'call' for contract calls */
+  readonly op_type?: string;
+  /** Contract method name for op_type 'call' */
+  readonly encrypted_data?: string;
   readonly signature: string;
   readonly public_key: string;
 }
@@ -111,6 +139,24 @@ export interface TransactionResult {
   readonly explorerUrl?: string;
 }
 
+/** Outcome of one transaction inside a batch (sendTransactions / octra_submitBatch) */
+export interface BatchTransactionItemResult extends TransactionResult {
+  /** Position of the transaction in the submitted batch */
+  readonly index: number;
+  /** Set when this transaction was not accepted; the rest of the batch may still have succeeded */
+  readonly error?: {
+    readonly code: ErrorCode;
+    readonly message: string;
+  };
+}
+
+export interface BatchTransactionResult {
+  /** One entry per submitted transaction, in submission order */
+  readonly results: BatchTransactionItemResult[];
+  readonly acceptedCount: number;
+  readonly rejectedCount: number;
+}
+
 export interface TransactionHistory {
   readonly transactions: Transaction[];
   readonly totalCount: number;
@@ -131,6 +177,8 @@ export interface Transaction {
   readonly finality?: TransactionFinality;
   readonly message?: string;
   readonly blockHeight?: number;
+  /** Confirmations observed by the node, when reported */
+  readonly confirmations?: number;
 }
 
 // Connection types
@@ -142,9 +190,25 @@ export interface ConnectionInfo {
   networkInfo?: NetworkInfo;
   connectedAt?: number;
   permissions?: Permission[];
+  /** Every account the wallet authorized for this origin; `address` is the active one */
+  accounts?: string[];
 }
 
-export interface ConnectOptions {
+/** Per-call options accepted by every ZeroXIOWallet method that talks to the wallet */
+export interface RequestOptions {
+  /**
+   * Aborting rejects the call with ABORTED right away and asks the wallet
+   * (best effort, `cancel_request`) to close the popup it opened for it
+   */
+  readonly signal?: AbortSignal;
+  /**
+   * Called with this request's place in the approval queue (1 = its popup is
+   * open) and the queue length, whenever either changes. Popup methods only.
+   */
+  readonly onQueuePosition?: (position: number, length: number) => void;
+}
+
+export interface ConnectOptions extends RequestOptions {
   /** RFC-O-1 canonical field name */
   readonly permissions?: Permission[];
   /** @deprecated Use permissions */
@@ -167,28 +231,62 @@ export type Permission =
   | 'stealth_scan'
   | 'stealth_claim';
 
+/** Every permission scope, in the order wallets display them */
+export const PERMISSIONS: readonly Permission[] = Object.freeze([
+  'read_address',
+  'read_balance',
+  'read_public_key',
+  'send_transactions',
+  'sign_messages',
+  'contract_calls',
+  'view_private_balance',
+  'view_encrypted_balance',
+  'private_transfers',
+  'encrypt_balance',
+  'decrypt_balance',
+  'stealth_scan',
+  'stealth_claim',
+]);
+
 // Event types
-export type WalletEventType =
-  | 'connect'
-  | 'disconnect'
-  | 'accountChanged'
-  | 'balanceChanged'
-  | 'networkChanged'
-  | 'transactionConfirmed'
-  | 'permissionsChanged'
-  | 'message'
-  | 'error'
-  | 'extensionLocked'
-  | 'extensionUnlocked';
-
-export interface WalletEvent<T = any> {
-  readonly type: WalletEventType;
+
+/**
+ * Payload of every ZeroXIOWallet event, keyed by event name. `wallet.on(name, listener)`
+ * infers the listener's `event.data` from this map.
+ */
+export interface WalletEventMap {
+  connect: ConnectEvent;
+  disconnect: DisconnectEvent;
+  accountChanged: AccountChangedEvent;
+  accountsChanged: AccountsChangedEvent;
+  balanceChanged: BalanceChangedEvent;
+  networkChanged: NetworkChangedEvent;
+  transactionConfirmed: TransactionConfirmedEvent;
+  /** Every granted permission after the change */
+  permissionsChanged: Permission[];
+  /** Free-form message pushed by the wallet */
+  message: unknown;
+  error: ErrorEvent;
+  extensionLocked: ExtensionLockEvent;
+  extensionUnlocked: ExtensionLockEvent;
+  approvalQueueChanged: ApprovalQueueEvent;
+}
+
+export type WalletEventType = keyof WalletEventMap;
+
+export interface WalletEvent<T = any, K extends WalletEventType = WalletEventType> {
+  readonly type: K;
   readonly data: T;
   readonly timestamp: number;
 }
 
+/** The event object a listener for `K` receives */
+export type WalletEventOf<K extends WalletEventType> = WalletEvent<WalletEventMap[K], K>;
+
 export interface ConnectEvent {
   readonly address: string;
+  /** Every authorized account (always includes `address`) */
+  readonly accounts: string[];
   readonly publicKey: string | undefined;
   readonly balance: Balance;
   readonly networkInfo: NetworkInfo;
@@ -202,10 +300,16 @@ export interface DisconnectEvent {
 export interface AccountChangedEvent {
   readonly previousAddress?: string;
   readonly newAddress: string;
-  readonly balance: Balance;
+  /** Undefined when the wallet sent no (valid) balance — call getBalance() */
+  readonly balance?: Balance;
   readonly publicKey?: string;
 }
 
+export interface AccountsChangedEvent {
+  readonly previousAccounts: string[];
+  readonly accounts: string[];
+}
+
 export interface BalanceChangedEvent {
   readonly address: string;
   readonly previousBalance: Balance | undefined;
@@ -218,9 +322,34 @@ export interface NetworkChangedEvent {
 }
 
 export interface TransactionConfirmedEvent {
+  readonly txHash: string;
   readonly transaction: Transaction;
+  /** Confirmation count, when the wallet reports one */
+  readonly confirmations?: number;
+}
+
+/** A popup request that is open or waiting its turn */
+export interface ApprovalQueueEntry {
+  /** Stable for the lifetime of the request — use it as a list key */
+  readonly ticket: number;
+  readonly method: string;
+  /** 1 for the open popup, then 2, 3, … in FIFO order */
+  readonly position: number;
+}
+
+export interface ApprovalQueueEvent {
+  /** The open popup first, then the waiting requests */
+  readonly entries: readonly ApprovalQueueEntry[];
 }
 
+export interface ApprovalQueueOptions {
+  /** Requests allowed to wait behind the open popup (default 5) */
+  readonly maxDepth?: number;
+}
+
+/** Data of extensionLocked / extensionUnlocked — the event itself is the signal */
+export type ExtensionLockEvent = Record<string, never>;
+
 export interface ErrorEvent {
   readonly code: ErrorCode;
   readonly message: string;
@@ -242,6 +371,7 @@ export enum ErrorCode {
   WALLET_LOCKED = 'WALLET_LOCKED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
+  INVALID_PARAMS = 'INVALID_PARAMS',
   // RPC error types from octra_submit and octra_submitBatch
   MALFORMED_TRANSACTION = 'MALFORMED_TRANSACTION',
   SELF_TRANSFER = 'SELF_TRANSFER',
@@ -249,7 +379,9 @@ export enum ErrorCode {
   INVALID_SIGNATURE = 'INVALID_SIGNATURE',
   DUPLICATE_TRANSACTION = 'DUPLICATE_TRANSACTION',
   NONCE_TOO_FAR = 'NONCE_TOO_FAR',
-  INTERNAL_ERROR = 'INTERNAL_ERROR'
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  // The caller aborted the request through its AbortSignal
+  ABORTED = 'ABORTED'
 }
 
 export class ZeroXIOWalletError extends Error {
@@ -263,6 +395,15 @@ export class ZeroXIOWalletError extends Error {
   }
 }
 
+// Message signing types
+/** Fields of the domain-separated message signed by signAuthMessage() */
+export interface AuthMessage {
+  readonly service: string;
+  readonly nonce: string;
+  /** Page origin at signing time ('unknown' outside a browser) */
+  readonly origin: string;
+}
+
 // Private balance types
 export interface PrivateBalanceInfo {
   readonly hasPrivateBalance: boolean;
@@ -272,8 +413,8 @@ export interface PrivateBalanceInfo {
 
 export interface PrivateTransferData {
   readonly to: string;
-  /** Amount in OCT. Accepts string or number — use string for amounts above 9 billion OCT to avoid JS number precision loss. */
-  readonly amount: string | number;
+  /** Amount in OCT. Accepts OctAmount, a decimal string or a number — numbers lose precision above 9 billion OCT. */
+  readonly amount: OctAmountInput;
   readonly message?: string;
 }
 
@@ -302,6 +443,19 @@ export interface SDKConfig {
    * is disabled. Leave unset for development (all localhost trusted by default).
    */
   readonly trustedParentOrigins?: string[];
+  /** Extra OU on top of the simulated amount for `ou: 'auto'` calls (default 0.2 = +20%) */
+  readonly ouSafetyMargin?: number;
+  /**
+   * Remember the last connection (adapter, address, network, permissions) and
+   * restore it silently on initialize() — no popup. `true` uses localStorage.
+   */
+  readonly persistSession?: boolean | import('./session').SessionPersistenceOptions;
+  /**
+   * Queue popup requests (signing, transactions, permission prompts) made while
+   * another popup is open, instead of rejecting them with RATE_LIMIT_EXCEEDED.
+   * `true` uses the default depth. Progress is reported by approvalQueueChanged.
+   */
+  readonly approvalQueue?: boolean | ApprovalQueueOptions;
   /**
    * Custom wallet transport adapter.
    * Defaults to ZeroXIOAdapter (0xio extension postMessage protocol).
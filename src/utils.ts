@@ -1,4 +1,7 @@
-import { ErrorCode, ZeroXIOWalletError } from './types';
+import { AuthMessage, ErrorCode, ZeroXIOWalletError } from './types';
+import { OctAmount, OctAmountInput } from './amount';
+import { verifyEd25519 } from './ed25519';
+import { sha256 } from './hash';
 
 export function isValidAddress(address: string): boolean {
   if (!address || typeof address !== 'string') {
@@ -12,18 +15,18 @@ export function isValidAddress(address: string): boolean {
 
 /**
  * Validate transaction amount.
- * Accepts both number and string representations.
- * String amounts avoid JS number precision loss for very large values.
+ * Accepts OctAmount, decimal strings and numbers. The amount must be positive and
+ * exactly representable in micro-OCT (at most 6 decimal places).
  */
-export function isValidAmount(amount: string | number): boolean {
-  if (typeof amount === 'string') {
-    const n = parseFloat(amount);
-    return !isNaN(n) && n > 0 && Number.isFinite(n);
+export function isValidAmount(amount: OctAmountInput): boolean {
+  if (typeof amount === 'number' && amount > Number.MAX_SAFE_INTEGER) {
+    return false;
+  }
+  try {
+    return OctAmount.from(amount).isPositive();
+  } catch {
+    return false;
   }
-  return typeof amount === 'number' &&
-    amount > 0 &&
-    Number.isFinite(amount) &&
-    amount <= Number.MAX_SAFE_INTEGER;
 }
 
 export function isValidMessage(message: string): boolean {
@@ -80,26 +83,99 @@ export async function deriveOctraAddress(publicKeyBase64: string): Promise<strin
   if (!publicKeyBase64 || typeof publicKeyBase64 !== 'string') {
     throw new Error('publicKeyBase64 must be a non-empty string');
   }
-  if (typeof crypto === 'undefined' || !crypto.subtle) {
-    throw new Error('Web Crypto API is not available in this environment');
+  const bytes = base64ToBytes(publicKeyBase64);
+  return 'oct' + _base58Encode(await sha256(bytes));
+}
+
+/**
+ * Build the domain-separated text that `signAuthMessage()` signs.
+ */
+export function formatAuthMessage(auth: AuthMessage): string {
+  return `0xio auth\nService: ${auth.service}\nNonce: ${auth.nonce}\nOrigin: ${auth.origin}`;
+}
+
+function decodeBase64Strict(value: string, length: number): Uint8Array | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const bytes = base64ToBytes(value);
+    return bytes.length === length ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a base64 Ed25519 signature from `signMessage()` against a base64 public key.
+ * Pass an AuthMessage to check a `signAuthMessage()` signature — the same
+ * domain-separated text is rebuilt before verifying. Uses Web Crypto where it
+ * supports Ed25519 and a pure-JS verifier elsewhere. Returns false for malformed
+ * input instead of throwing.
+ */
+export async function verifyMessage(
+  message: string | AuthMessage,
+  signatureBase64: string,
+  publicKeyBase64: string
+): Promise<boolean> {
+  const text = typeof message === 'string' ? message : formatAuthMessage(message);
+  const signature = decodeBase64Strict(signatureBase64, 64);
+  const publicKey = decodeBase64Strict(publicKeyBase64, 32);
+  if (!signature || !publicKey) return false;
+  return verifyEd25519(publicKey, signature, new TextEncoder().encode(text));
+}
+
+/**
+ * Verify a signature and check that the public key belongs to `address`.
+ * Ed25519 cannot recover a key from a signature, so the signer's public key is
+ * required; this confirms it derives to the claimed address via deriveOctraAddress().
+ */
+export async function recoverAndCheckAddress(
+  message: string | AuthMessage,
+  signatureBase64: string,
+  publicKeyBase64: string,
+  address: string
+): Promise<boolean> {
+  if (typeof address !== 'string' || !(await verifyMessage(message, signatureBase64, publicKeyBase64))) {
+    return false;
   }
-  const binStr = atob(publicKeyBase64);
+  return (await deriveOctraAddress(publicKeyBase64)) === address;
+}
+
+/**
+ * Encode raw bytes as standard (padded) base64.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binStr = '';
+  for (let i = 0; i < bytes.length; i++) binStr += String.fromCharCode(bytes[i]);
+  return btoa(binStr);
+}
+
+/**
+ * Decode standard base64 into raw bytes. Throws on malformed input.
+ */
+export function base64ToBytes(base64: string) {
+  const binStr = atob(base64);
   const bytes = new Uint8Array(binStr.length);
   for (let i = 0; i < binStr.length; i++) bytes[i] = binStr.charCodeAt(i);
-  const hashBuf = await crypto.subtle.digest('SHA-256', bytes);
-  return 'oct' + _base58Encode(new Uint8Array(hashBuf));
+  return bytes;
 }
 
-export function formatOCT(amount: number | string, decimals = 6): string {
-  const n = typeof amount === 'string' ? parseFloat(amount) : amount;
-  if (!isValidAmount(n)) {
+/**
+ * Format an OCT amount for display with ',' grouping, e.g. `1,234.5`.
+ * Invalid or non-positive amounts format as '0'.
+ */
+export function formatOCT(amount: OctAmountInput, decimals = 6): string {
+  let value: OctAmount;
+  try {
+    // numbers are rounded to micro-OCT first — display only
+    value = OctAmount.from(typeof amount === 'number' ? amount.toFixed(6) : amount);
+  } catch {
+    return '0';
+  }
+  if (!value.isPositive()) {
     return '0';
   }
 
-  return n.toLocaleString(undefined, {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: decimals
-  });
+  return value.format({ decimals });
 }
 
 export function formatAddress(address: string, prefixLength = 6, suffixLength = 4): string {
@@ -134,7 +210,11 @@ export function formatTxHash(hash: string, length = 12): string {
   return `${hash.slice(0, prefixLength)}...${hash.slice(-suffixLength)}`;
 }
 
-export function toMicroOCT(amount: number): string {
+/**
+ * Convert OCT to integer micro-OCT (1 OCT = 1,000,000 raw units per JSON-RPC spec).
+ * Exact — throws INVALID_AMOUNT for amounts with more than 6 decimal places.
+ */
+export function toMicroOCT(amount: OctAmountInput): string {
   if (!isValidAmount(amount)) {
     throw new ZeroXIOWalletError(
       ErrorCode.INVALID_AMOUNT,
@@ -142,22 +222,29 @@ export function toMicroOCT(amount: number): string {
     );
   }
 
-  // OCT uses 6 decimal places (1 OCT = 1,000,000 raw units per JSON-RPC spec)
-  const microOCT = Math.round(amount * 1_000_000);
-  return microOCT.toString();
+  return OctAmount.from(amount).toMicroString();
 }
 
-export function fromMicroOCT(microAmount: string | number): number {
-  const amount = typeof microAmount === 'string' ? parseInt(microAmount, 10) : microAmount;
+/**
+ * Convert integer micro-OCT to OCT as a number. Lossy above ~9 billion OCT —
+ * use `OctAmount.fromMicro()` when the result feeds into arithmetic.
+ */
+export function fromMicroOCT(microAmount: string | number | bigint): number {
+  let amount: OctAmount | null = null;
+  try {
+    amount = OctAmount.fromMicro(microAmount);
+  } catch {
+    // fall through to the error below
+  }
 
-  if (!Number.isFinite(amount) || amount < 0) {
+  if (!amount || amount.isNegative()) {
     throw new ZeroXIOWalletError(
       ErrorCode.INVALID_AMOUNT,
       'Invalid micro OCT amount for conversion'
     );
   }
 
-  return amount / 1_000_000;
+  return amount.toNumber();
 }
 
 export function createErrorMessage(code: ErrorCode, context?: string): string {
@@ -175,13 +262,15 @@ export function createErrorMessage(code: ErrorCode, context?: string): string {
     [ErrorCode.WALLET_LOCKED]: 'Wallet is locked, please unlock first',
     [ErrorCode.RATE_LIMIT_EXCEEDED]: 'Rate limit exceeded, please try again later',
     [ErrorCode.UNKNOWN_ERROR]: 'An unknown error occurred',
+    [ErrorCode.INVALID_PARAMS]: 'Invalid parameters',
     [ErrorCode.MALFORMED_TRANSACTION]: 'Transaction is malformed',
     [ErrorCode.SELF_TRANSFER]: 'Cannot transfer to yourself',
     [ErrorCode.SENDER_NOT_FOUND]: 'Sender address not found',
     [ErrorCode.INVALID_SIGNATURE]: 'Invalid transaction signature',
     [ErrorCode.DUPLICATE_TRANSACTION]: 'Duplicate transaction detected',
     [ErrorCode.NONCE_TOO_FAR]: 'Transaction nonce is too far ahead',
-    [ErrorCode.INTERNAL_ERROR]: 'Internal server error'
+    [ErrorCode.INTERNAL_ERROR]: 'Internal server error',
+    [ErrorCode.ABORTED]: 'Request was aborted'
   };
 
   const baseMessage = baseMessages[code] || 'Unknown error';
@@ -192,14 +281,57 @@ export function isErrorType(error: any, code: ErrorCode): boolean {
   return error instanceof ZeroXIOWalletError && error.code === code;
 }
 
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * ABORTED error for an operation cancelled through an AbortSignal.
+ * `signal.reason` is kept in details.
+ */
+export function createAbortError(operation: string, signal?: AbortSignal): ZeroXIOWalletError {
+  return new ZeroXIOWalletError(
+    ErrorCode.ABORTED,
+    `${operation} was aborted`,
+    { operation, reason: signal?.reason }
+  );
 }
 
+/**
+ * Throw ABORTED when `signal` has already been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) {
+    throw createAbortError(operation, signal);
+  }
+}
+
+/**
+ * Resolve after `ms`. Aborting `signal` rejects with ABORTED right away.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError('delay', signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError('delay', signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `operation`, retrying failures with exponential backoff. Rejections,
+ * aborts and aborting `signal` during a backoff wait are not retried.
+ */
 export async function retry<T>(
   operation: () => Promise<T>,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error;
 
@@ -211,7 +343,10 @@ export async function retry<T>(
     } catch (error) {
       lastError = error as Error;
 
-      // Never retry user rejections — these are intentional
+      // Never retry user rejections or aborts — these are intentional
+      if (isErrorType(lastError, ErrorCode.ABORTED)) {
+        throw lastError;
+      }
       const msg = lastError.message?.toLowerCase() || '';
       if (msg.includes('rejected') || msg.includes('denied') || msg.includes('cancelled') || msg.includes('user refused')) {
         throw lastError;
@@ -223,7 +358,7 @@ export async function retry<T>(
 
       // Exponential backoff: 1s, 2s, 4s, etc.
       const delayMs = baseDelay * Math.pow(2, attempt);
-      await delay(delayMs);
+      await delay(delayMs, signal);
     }
   }
 
@@ -0,0 +1,401 @@
+/**
+ * 0xio SDK — Vue 3 bindings (`@0xio/sdk/vue`)
+ *
+ * `app.use(createZeroXIO({ config }))` provides one ZeroXIOWallet to the app;
+ * composables expose its state as refs. Connection refs follow `wallet.store`,
+ * which the wallet's event handlers update; contract reads refetch on the
+ * wallet's balanceChanged / networkChanged events. Every subscription is removed
+ * in onScopeDispose (wallet.off / store unsubscribe).
+ *
+ * Lifecycle mirrors ZeroXIOWallet: initialize() runs once on the client
+ * (it is idempotent), never during SSR, and a plugin-owned wallet is released
+ * with cleanup() when the app unmounts.
+ */
+
+import {
+  getCurrentScope,
+  inject,
+  onScopeDispose,
+  ref,
+  shallowRef,
+  toValue,
+  watch
+} from 'vue';
+import type { App, InjectionKey, MaybeRefOrGetter, Ref } from 'vue';
+import {
+  ZeroXIOWallet,
+  ZeroXIOWalletError,
+  ErrorCode,
+  encodeContractParams
+} from '../index';
+import type {
+  Balance,
+  ConnectEvent,
+  ConnectOptions,
+  ContractCallData,
+  ContractParams,
+  NetworkInfo,
+  Permission,
+  SDKConfig,
+  TransactionResult,
+  WalletEventType,
+  WalletStatus
+} from '../index';
+
+// ===================
+// Plugin
+// ===================
+
+/** Lifecycle of the plugin's initialize() call */
+export type WalletInitStatus = 'idle' | 'initializing' | 'ready' | 'error';
+
+export interface ZeroXIOPluginOptions {
+  readonly config?: SDKConfig;
+  /** Use an existing wallet instead of creating one; it is not cleaned up on unmount */
+  readonly wallet?: ZeroXIOWallet;
+  /** Call initialize() when installed in the browser (default true) */
+  readonly autoInitialize?: boolean;
+}
+
+export interface ZeroXIOContext {
+  readonly wallet: ZeroXIOWallet;
+  readonly initStatus: Readonly<Ref<WalletInitStatus>>;
+  readonly initError: Readonly<Ref<ZeroXIOWalletError | null>>;
+  /** Run initialize() now (autoInitialize: false, or retry after an error) */
+  initialize(): Promise<boolean>;
+}
+
+export interface ZeroXIOPlugin {
+  readonly wallet: ZeroXIOWallet;
+  install(app: App): void;
+}
+
+export const ZeroXIOKey: InjectionKey<ZeroXIOContext> = Symbol('0xio');
+
+function toWalletError(error: unknown, fallback: string): ZeroXIOWalletError {
+  return error instanceof ZeroXIOWalletError
+    ? error
+    : new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, fallback, error);
+}
+
+export function createZeroXIO(options: ZeroXIOPluginOptions): ZeroXIOPlugin {
+  if (!options.wallet && !options.config) {
+    throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, 'createZeroXIO needs either `config` or `wallet`');
+  }
+  const owned = !options.wallet;
+  // the constructor touches no browser APIs when there is no window, so this is SSR-safe
+  const wallet = options.wallet ?? new ZeroXIOWallet(options.config!);
+  const initStatus = ref<WalletInitStatus>('idle');
+  const initError = shallowRef<ZeroXIOWalletError | null>(null);
+
+  const initialize = async (): Promise<boolean> => {
+    initStatus.value = 'initializing';
+    initError.value = null;
+    try {
+      const ready = await wallet.initialize();
+      initStatus.value = 'ready';
+      return ready;
+    } catch (error) {
+      initError.value = toWalletError(error, 'Failed to initialize SDK');
+      initStatus.value = 'error';
+      throw initError.value;
+    }
+  };
+
+  const context: ZeroXIOContext = {
+    wallet,
+    initStatus,
+    initError,
+    initialize,
+  };
+
+  return {
+    wallet,
+    install(app: App): void {
+      app.provide(ZeroXIOKey, context);
+      if (owned) {
+        app.onUnmount(() => wallet.cleanup());
+      }
+      if ((options.autoInitialize ?? true) && typeof window !== 'undefined') {
+        initialize().catch(() => { });
+      }
+    },
+  };
+}
+
+export function useZeroXIOContext(): ZeroXIOContext {
+  const context = inject(ZeroXIOKey, null);
+  if (!context) {
+    throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, '0xio composables need app.use(createZeroXIO(...))');
+  }
+  return context;
+}
+
+/**
+ * wallet.on for the lifetime of the current effect scope (component setup or
+ * effectScope); removed with wallet.off when the scope is disposed. Without a
+ * scope — server rendering — nothing is registered, so nothing can leak.
+ */
+function useWalletEvents(wallet: ZeroXIOWallet, eventTypes: WalletEventType[], listener: () => void): void {
+  if (!getCurrentScope()) return;
+  for (const eventType of eventTypes) wallet.on(eventType, listener);
+  onScopeDispose(() => {
+    for (const eventType of eventTypes) wallet.off(eventType, listener);
+  });
+}
+
+// ===================
+// Composables
+// ===================
+
+export interface UseZeroXIOResult {
+  readonly wallet: ZeroXIOWallet;
+  readonly initStatus: Readonly<Ref<WalletInitStatus>>;
+  readonly initError: Readonly<Ref<ZeroXIOWalletError | null>>;
+  readonly status: Readonly<Ref<WalletStatus>>;
+  readonly isConnected: Readonly<Ref<boolean>>;
+  readonly isConnecting: Readonly<Ref<boolean>>;
+  readonly address: Readonly<Ref<string | null>>;
+  readonly accounts: Readonly<Ref<readonly string[]>>;
+  readonly publicKey: Readonly<Ref<string | null>>;
+  readonly balance: Readonly<Ref<Balance | null>>;
+  readonly network: Readonly<Ref<NetworkInfo | null>>;
+  readonly permissions: Readonly<Ref<readonly Permission[]>>;
+  /** Last connect()/disconnect() failure */
+  readonly error: Readonly<Ref<ZeroXIOWalletError | null>>;
+  connect(options?: ConnectOptions): Promise<ConnectEvent>;
+  disconnect(): Promise<void>;
+  refreshBalance(): Promise<Balance>;
+}
+
+/**
+ * Reactive connection state. Call inside setup() (or any effect scope).
+ */
+export function useZeroXIO(): UseZeroXIOResult {
+  const { wallet, initStatus, initError } = useZeroXIOContext();
+
+  const status = ref<WalletStatus>('disconnected');
+  const isConnected = ref(false);
+  const isConnecting = ref(false);
+  const address = ref<string | null>(null);
+  const accounts = shallowRef<readonly string[]>([]);
+  const publicKey = ref<string | null>(null);
+  const balance = shallowRef<Balance | null>(null);
+  const network = shallowRef<NetworkInfo | null>(null);
+  const permissions = shallowRef<readonly Permission[]>([]);
+  const error = shallowRef<ZeroXIOWalletError | null>(null);
+
+  const sync = () => {
+    const state = wallet.store.getState();
+    status.value = state.status;
+    isConnected.value = state.isConnected;
+    address.value = state.address;
+    accounts.value = state.accounts;
+    publicKey.value = state.publicKey;
+    balance.value = state.balance;
+    network.value = state.network;
+    permissions.value = state.permissions;
+  };
+  sync();
+  // the store also covers transitions that emit no event (e.g. unlock without a restorable session)
+  if (getCurrentScope()) {
+    onScopeDispose(wallet.store.subscribe(sync));
+  }
+
+  const connect = async (options?: ConnectOptions): Promise<ConnectEvent> => {
+    isConnecting.value = true;
+    error.value = null;
+    try {
+      return await wallet.connect(options);
+    } catch (e) {
+      error.value = toWalletError(e, 'Failed to connect to wallet');
+      throw error.value;
+    } finally {
+      isConnecting.value = false;
+    }
+  };
+
+  const disconnect = async (): Promise<void> => {
+    error.value = null;
+    try {
+      await wallet.disconnect();
+    } catch (e) {
+      error.value = toWalletError(e, 'Failed to disconnect');
+      throw error.value;
+    }
+  };
+
+  return {
+    wallet,
+    initStatus,
+    initError,
+    status,
+    isConnected,
+    isConnecting,
+    address,
+    accounts,
+    publicKey,
+    balance,
+    network,
+    permissions,
+    error,
+    connect,
+    disconnect,
+    refreshBalance: () => wallet.getBalance(true),
+  };
+}
+
+export interface UseContractReadOptions {
+  readonly contract: string;
+  readonly method: string;
+  readonly params?: ContractParams;
+  readonly caller?: string;
+  /** Skip fetching while false (default true) */
+  readonly enabled?: boolean;
+}
+
+export interface UseContractReadResult<T> {
+  readonly data: Readonly<Ref<T | undefined>>;
+  readonly error: Readonly<Ref<ZeroXIOWalletError | null>>;
+  readonly isLoading: Readonly<Ref<boolean>>;
+  refetch(): Promise<T | undefined>;
+}
+
+/**
+ * contractCallView as refs. Refetches when the options change (pass a ref or
+ * getter to make them reactive), once the wallet is initialized, and on
+ * balanceChanged / networkChanged.
+ */
+export function useContractRead<T = unknown>(
+  options: MaybeRefOrGetter<UseContractReadOptions>
+): UseContractReadResult<T> {
+  const { wallet, initStatus } = useZeroXIOContext();
+  const data = shallowRef<T | undefined>(undefined);
+  const error = shallowRef<ZeroXIOWalletError | null>(null);
+  const isLoading = ref(false);
+  // only the latest request may write the refs
+  let requestId = 0;
+
+  const refetch = async (): Promise<T | undefined> => {
+    const { contract, method, params, caller, enabled = true } = toValue(options);
+    if (!enabled) return data.value;
+    try {
+      encodeContractParams(params ?? []);
+    } catch (e) {
+      // params that cannot be encoded fail without a request, ready or not
+      ++requestId;
+      const walletError = toWalletError(e, 'Invalid contract params');
+      data.value = undefined;
+      error.value = walletError;
+      isLoading.value = false;
+      throw walletError;
+    }
+    if (initStatus.value !== 'ready') return data.value;
+
+    const id = ++requestId;
+    isLoading.value = true;
+    try {
+      const result = await wallet.contractCallView({
+        contract,
+        method,
+        params: params ?? [],
+        ...(caller != null ? { caller } : {}),
+      });
+      if (id === requestId) {
+        data.value = result;
+        error.value = null;
+      }
+      return result;
+    } catch (e) {
+      const walletError = toWalletError(e, 'Contract read failed');
+      if (id === requestId) error.value = walletError;
+      throw walletError;
+    } finally {
+      if (id === requestId) isLoading.value = false;
+    }
+  };
+  const refresh = () => {
+    refetch().catch(() => { });
+  };
+
+  // the wire encoding is JSON-safe (bigint, bytes), so it doubles as a change key;
+  // params it rejects still change the key, and refetch reports them through `error`
+  const key = () => {
+    const { contract, method, params, caller, enabled = true } = toValue(options);
+    let encoded: unknown;
+    try {
+      encoded = encodeContractParams(params ?? []).params;
+    } catch (e) {
+      encoded = { invalid: e instanceof Error ? e.message : String(e) };
+    }
+    return JSON.stringify([contract, method, encoded, caller ?? null, enabled]);
+  };
+  watch([key, initStatus], refresh, { immediate: true });
+  useWalletEvents(wallet, ['balanceChanged', 'networkChanged'], refresh);
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      ++requestId;
+    });
+  }
+
+  return {
+    data,
+    error,
+    isLoading,
+    refetch,
+  };
+}
+
+export interface UseContractWriteResult {
+  readonly data: Readonly<Ref<TransactionResult | undefined>>;
+  readonly error: Readonly<Ref<ZeroXIOWalletError | null>>;
+  readonly isPending: Readonly<Ref<boolean>>;
+  /** Resolves with the result; also rejects, so callers may await and catch */
+  write(callData: ContractCallData): Promise<TransactionResult>;
+  reset(): void;
+}
+
+export function useContractWrite(): UseContractWriteResult {
+  const { wallet } = useZeroXIOContext();
+  const data = shallowRef<TransactionResult | undefined>(undefined);
+  const error = shallowRef<ZeroXIOWalletError | null>(null);
+  const isPending = ref(false);
+  let callId = 0;
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      ++callId;
+    });
+  }
+
+  const write = async (callData: ContractCallData): Promise<TransactionResult> => {
+    const id = ++callId;
+    isPending.value = true;
+    error.value = null;
+    try {
+      const result = await wallet.callContract(callData);
+      if (id === callId) data.value = result;
+      return result;
+    } catch (e) {
+      const walletError = toWalletError(e, 'Failed to call contract');
+      if (id === callId) error.value = walletError;
+      throw walletError;
+    } finally {
+      if (id === callId) isPending.value = false;
+    }
+  };
+
+  const reset = () => {
+    ++callId;
+    data.value = undefined;
+    error.value = null;
+    isPending.value = false;
+  };
+
+  return {
+    data,
+    error,
+    isPending,
+    write,
+    reset,
+  };
+}
@@ -0,0 +1,96 @@
+import { ZeroXIOWallet } from './wallet';
+import { SDK_CONFIG } from './config';
+import { AdapterRequest, WalletTransportAdapter } from './adapter';
+import { createMockWalletAdapter } from './supports/mock';
+import { createLocalSignerAdapter } from './supports/local-signer';
+import { verifyTypedData } from './typed-data';
+
+const ALICE = 'octMock' + '1'.padStart(40, '0');
+const CONTRACT = 'octMock' + '9'.padStart(40, '0');
+
+describe('ZeroXIOWallet.simulateContractCall', () => {
+  const realFetch = globalThis.fetch;
+  let wallet: ZeroXIOWallet | undefined;
+
+  afterEach(() => {
+    wallet?.cleanup();
+    wallet = undefined;
+    globalThis.fetch = realFetch;
+    jest.useRealTimers();
+  });
+
+  it('probes the wallet briefly, then remembers that it cannot simulate', async () => {
+    jest.useFakeTimers();
+    const rpcCalls: string[] = [];
+    globalThis.fetch = (async (_url: string, init: { body: string }) => {
+      const { id, method } = JSON.parse(init.body);
+      rpcCalls.push(method);
+      return { status: 200, json: async () => ({ jsonrpc: '2.0', id, result: { success: true, ou_consumed: 1200 } }) };
+    }) as unknown as typeof fetch;
+
+    // a wallet that never answers simulate_contract_call
+    const mock = createMockWalletAdapter({ accounts: [{ address: ALICE, balance: '100' }] });
+    const walletRequests: AdapterRequest[] = [];
+    const adapter: WalletTransportAdapter = {
+      ...mock,
+      postRequest(request) {
+        walletRequests.push(request);
+        if (request.method !== 'simulate_contract_call') mock.postRequest(request);
+      },
+    };
+    wallet = new ZeroXIOWallet({ appName: 'Simulation Test', adapter, requiredPermissions: ['read_address'] });
+    const ready = wallet.initialize();
+    await jest.advanceTimersByTimeAsync(100);
+    await ready;
+    const connected = wallet.connect();
+    await jest.advanceTimersByTimeAsync(100);
+    await connected;
+
+    const first = wallet.simulateContractCall({ contract: CONTRACT, method: 'swap', params: [] });
+    // the probe (and its single retry) gives up well before the regular request timeout
+    await jest.advanceTimersByTimeAsync(SDK_CONFIG.simulationProbeTimeout * 2 + 2000);
+    await expect(first).resolves.toMatchObject({ success: true, ouConsumed: 1200 });
+
+    const probes = () => walletRequests.filter((r) => r.method === 'simulate_contract_call').length;
+    const probed = probes();
+    expect(probed).toBeGreaterThan(0);
+
+    await expect(wallet.simulateContractCall({ contract: CONTRACT, method: 'swap', params: [] }))
+      .resolves.toMatchObject({ ouConsumed: 1200 });
+    expect(probes()).toBe(probed);
+    expect(rpcCalls).toEqual(['contract_call_simulate', 'contract_call_simulate']);
+  });
+});
+
+describe('ZeroXIOWallet.signTypedData', () => {
+  let wallet: ZeroXIOWallet | undefined;
+
+  afterEach(() => {
+    wallet?.cleanup();
+    wallet = undefined;
+  });
+
+  it('returns the domain it completed, which verifies the signature', async () => {
+    wallet = new ZeroXIOWallet({
+      appName: 'Typed Data Test',
+      adapter: createLocalSignerAdapter({
+        // RFC 8032 TEST 1 secret key
+        privateKey: Buffer.from('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60', 'hex').toString('base64'),
+        networkId: 'devnet',
+        fetch: (async () => { throw new Error('offline'); }) as unknown as typeof fetch,
+      }),
+      requiredPermissions: ['read_address', 'sign_messages'],
+    });
+    await wallet.initialize();
+    const { publicKey } = await wallet.connect();
+    const domain = { name: 'Dex', version: '1' };
+    const types = { Ping: [{ name: 'count', type: 'uint' }] };
+
+    const signed = await wallet.signTypedData(domain, types, { count: 1 });
+
+    expect(signed.domain).toEqual({ ...domain, networkId: 'devnet' });
+    expect(signed.primaryType).toBe('Ping');
+    await expect(verifyTypedData(signed.domain, types, { count: 1 }, signed.signature, publicKey!)).resolves.toBe(true);
+    await expect(verifyTypedData(domain, types, { count: 1 }, signed.signature, publicKey!)).resolves.toBe(false);
+  });
+});
@@ -5,25 +5,42 @@ import {
   ConnectionInfo,
   ConnectOptions,
   ContractCallData,
+  ContractSimulationResult,
   ContractViewCallData,
   NetworkInfo,
   SDKConfig,
   TransactionData,
   TransactionResult,
+  BatchTransactionResult,
   TransactionHistory,
+  Transaction,
   PrivateBalanceInfo,
   PrivateTransferData,
   PendingPrivateTransfer,
   ErrorCode,
   ZeroXIOWalletError,
   ConnectEvent,
+  AccountsChangedEvent,
   DisconnectEvent,
   AccountChangedEvent,
   BalanceChangedEvent,
-  NetworkChangedEvent
+  NetworkChangedEvent,
+  TransactionConfirmedEvent,
+  Permission,
+  RequestOptions,
+  ApprovalQueueEntry,
+  PERMISSIONS
 } from './types';
-import { getNetworkConfig, createDefaultBalance, validateBalance, validateNetworkInfo } from './config';
-import { createLogger, isValidAddress, isValidAmount, deriveOctraAddress } from './utils';
+import { getNetworkConfig, createDefaultBalance, validateBalance, validateNetworkInfo, SDK_CONFIG } from './config';
+import { OctAmount, OctAmountInput } from './amount';
+import { encodeContractParams, WireContractParam } from './encoding';
+import { createLogger, isValidAddress, isValidAmount, deriveOctraAddress, formatAuthMessage, isErrorType } from './utils';
+import { OctraRpcClient, normalizeBatchResults, normalizeSimulation, normalizeTransaction } from './rpc';
+import { TransactionTracker, WaitForTransactionOptions } from './tracker';
+import { createSiwoMessage, formatSiwoMessage, SiwoSignInOptions, SiwoSignInResult } from './siwo';
+import { createTypedDataPayload, SignedTypedData, TypedDataDomain, TypedDataTypes } from './typed-data';
+import { SessionPersistence } from './session';
+import { PendingTransactionKind, WalletStateStore, WalletStore, shallowEqual } from './store';
 
 export class ZeroXIOWallet extends EventEmitter {
   private communicator: ExtensionCommunicator;
@@ -33,6 +50,17 @@ export class ZeroXIOWallet extends EventEmitter {
   private _initPromise: Promise<boolean> | null = null;
   // session version — stale write detection
   private _sessionVersion = 0;
+  // Active trackers receive transactionConfirmed push updates
+  private trackers = new Set<TransactionTracker>();
+  // Whether the wallet answers simulate_contract_call — unknown until the first attempt
+  private walletSimulation: 'unknown' | 'supported' | 'unsupported' = 'unknown';
+  // Opt-in record of the last connection (SDKConfig.persistSession)
+  private session: SessionPersistence | null = null;
+  // Snapshot behind the public `store` getter; written only through syncStore()/pending helpers
+  private stateStore = new WalletStateStore();
+  private isLocked = false;
+  // wallets that predate permission reporting send none; gated methods then defer to the wallet
+  private permissionsReported = false;
   private logger: ReturnType<typeof createLogger>;
 
   constructor(config: SDKConfig) {
@@ -46,15 +74,34 @@ export class ZeroXIOWallet extends EventEmitter {
     };
 
     this.logger = createLogger('ZeroXIOWallet', this.config.debug || false);
+    if (this.config.persistSession) {
+      this.session = new SessionPersistence(
+        this.config.appName,
+        this.config.persistSession === true ? {} : this.config.persistSession,
+        this.config.debug
+      );
+    }
     this.communicator = new ExtensionCommunicator(
       this.config.debug,
       this.config.trustedParentOrigins ?? [],
       this.config.adapter
     );
+    if (this.config.approvalQueue) {
+      this.communicator.setApprovalQueue(this.config.approvalQueue === true ? {} : this.config.approvalQueue);
+    }
 
     this.logger.log('Wallet instance created with config:', this.config);
   }
 
+  /**
+   * Reactive snapshot of connection, address, balance, network, permissions,
+   * lock state and pending transactions. Use `subscribe(selector, listener)`
+   * instead of wiring individual events.
+   */
+  get store(): WalletStore {
+    return this.stateStore;
+  }
+
   async initialize(): Promise<boolean> {
     if (this.isInitialized) {
       return true;
@@ -90,6 +137,8 @@ export class ZeroXIOWallet extends EventEmitter {
 
         this.logger.log('SDK initialized successfully');
 
+        await this.restoreSession();
+
         return true;
       } catch (error) {
         this.logger.error('Failed to initialize:', error);
@@ -127,11 +176,17 @@ export class ZeroXIOWallet extends EventEmitter {
       const requestedPermissions = requestedPerms
         ? requestedPerms.filter(p => declaredPermissions.includes(p))
         : declaredPermissions;
+      if (requestedPerms && requestedPermissions.length < requestedPerms.length) {
+        this.logger.warn(
+          'Dropped permissions not declared in requiredPermissions (use requestPermissions() after connecting):',
+          requestedPerms.filter(p => !declaredPermissions.includes(p))
+        );
+      }
 
       const result = await this.communicator.sendRequest('connect', {
         permissions: requestedPermissions,
         networkId: options.networkId || this.config.networkId
-      });
+      }, { signal: options.signal, onQueuePosition: options.onQueuePosition });
 
       // verify pubkey→addr binding
       if (result.publicKey && result.address) {
@@ -160,26 +215,36 @@ export class ZeroXIOWallet extends EventEmitter {
         );
       }
       const permissions = result.permissions || [];
+      const accounts = this.normalizeAccounts(result.accounts, result.address);
+      this.permissionsReported = Array.isArray(result.permissions);
+      // RFC-O-1 wallets send no balance on connect; the store keeps it null until fetched
+      const balance = validateBalance(result.balance) ?? undefined;
 
       // Update connection info — including permissions
       this.connectionInfo = {
         isConnected: true,
         address: result.address,
         publicKey: result.publicKey,
-        balance: result.balance,
+        balance,
         networkInfo,
         connectedAt: Date.now(),
-        permissions
+        permissions,
+        accounts
       };
 
       const connectEvent: ConnectEvent = {
         address: result.address,
+        accounts: [...accounts],
         publicKey: result.publicKey,
-        balance: result.balance,
+        balance: balance ?? createDefaultBalance(),
         networkInfo,
         permissions
       };
 
+      void this.session?.save(this.connectionInfo, this.communicator.getAdapterName());
+      this.isLocked = false;
+      this.syncStore();
+
       // Emit connect event
       this.emit('connect', connectEvent);
 
@@ -204,14 +269,17 @@ export class ZeroXIOWallet extends EventEmitter {
   /**
    * Disconnect from wallet
    */
-  async disconnect(): Promise<void> {
+  async disconnect(options: RequestOptions = {}): Promise<void> {
     this.ensureInitialized();
 
     try {
-      await this.communicator.sendRequest('disconnect');
+      await this.communicator.sendRequest('disconnect', {}, options);
 
       ++this._sessionVersion;
       this.connectionInfo = { isConnected: false };
+      void this.session?.clear();
+      this.isLocked = false;
+      this.syncStore();
 
       const disconnectEvent: DisconnectEvent = {
         reason: 'user_action'
@@ -240,15 +308,23 @@ export class ZeroXIOWallet extends EventEmitter {
     return { ...this.connectionInfo };
   }
 
+  /**
+   * Popup requests in flight: the open one first, then those waiting in the
+   * approval queue (SDKConfig.approvalQueue)
+   */
+  getApprovalQueue(): ApprovalQueueEntry[] {
+    return this.communicator.getApprovalQueue();
+  }
+
   /**
    * Check connection status with extension
    */
-  async getConnectionStatus(): Promise<ConnectionInfo> {
+  async getConnectionStatus(options: RequestOptions = {}): Promise<ConnectionInfo> {
     this.ensureInitialized();
 
     try {
       const sv = this._sessionVersion;
-      const result = await this.communicator.sendRequest('getConnectionStatus');
+      const result = await this.communicator.sendRequest('getConnectionStatus', {}, options);
 
       // skip if session changed mid-flight
       if (this._sessionVersion !== sv) return { ...this.connectionInfo };
@@ -261,6 +337,8 @@ export class ZeroXIOWallet extends EventEmitter {
             if (derived !== result.address) {
               this.logger.warn('Address-key binding mismatch on session restore — ignoring stale session');
               this.connectionInfo = { isConnected: false };
+              void this.session?.clear();
+              this.syncStore();
               return { ...this.connectionInfo };
             }
           } catch (e) {
@@ -279,7 +357,12 @@ export class ZeroXIOWallet extends EventEmitter {
         }
 
         const wasConnected = this.connectionInfo.isConnected;
+        const previousAccounts = this.connectionInfo.accounts ?? [];
         const permissions = result.permissions || [];
+        this.permissionsReported = Array.isArray(result.permissions);
+        const reported = this.normalizeAccounts(result.accounts, result.address);
+        // keep the known order when only the order moved
+        const accounts = this.sameAccounts(previousAccounts, reported) ? previousAccounts : reported;
 
         // preserve existing connectedAt
         const connectedAt = this.connectionInfo.connectedAt || result.connectedAt || Date.now();
@@ -291,15 +374,20 @@ export class ZeroXIOWallet extends EventEmitter {
           balance: balanceInfo,
           networkInfo,
           connectedAt,
-          permissions
+          permissions,
+          accounts
         };
 
         this.logger.log('Discovered existing connection:', { address: result.address, network: networkInfo.id });
+        this.syncPersistedSession();
+        this.isLocked = false;
+        this.syncStore();
 
         // only emit on disconnected→connected transition
         if (!wasConnected) {
           const connectEvent: ConnectEvent = {
             address: result.address,
+            accounts: [...accounts],
             publicKey: result.publicKey,
             balance: balanceInfo,
             networkInfo,
@@ -307,17 +395,26 @@ export class ZeroXIOWallet extends EventEmitter {
           };
 
           this.emit('connect', connectEvent);
+        } else if (!this.sameAccounts(previousAccounts, accounts)) {
+          const accountsChangedEvent: AccountsChangedEvent = { previousAccounts: [...previousAccounts], accounts: [...accounts] };
+          this.emit('accountsChanged', accountsChangedEvent);
         }
       } else {
         // No existing connection
         this.connectionInfo = { isConnected: false };
+        // the wallet no longer authorizes this origin
+        void this.session?.clear();
+        this.syncStore();
       }
 
       return { ...this.connectionInfo };
     } catch (error) {
+      // an aborted check says nothing about the connection
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       this.logger.error('Failed to get connection status:', error);
 
       this.connectionInfo = { isConnected: false };
+      this.syncStore();
       return { ...this.connectionInfo };
     }
   }
@@ -327,12 +424,12 @@ export class ZeroXIOWallet extends EventEmitter {
    * Works silently — no popup, no user confirmation needed.
    * The extension broadcasts 'networkChanged' event to all connected dApps.
    */
-  async switchNetwork(networkId: string): Promise<{ network: string; switched: boolean }> {
+  async switchNetwork(networkId: string, options: RequestOptions = {}): Promise<{ network: string; switched: boolean }> {
     this.ensureConnected();
 
     try {
       const sv = this._sessionVersion;
-      const result = await this.communicator.sendRequest('switch_network', { networkId });
+      const result = await this.communicator.sendRequest('switch_network', { networkId }, options);
       this.logger.log(`Network switch result:`, result);
 
       // skip if session changed mid-flight
@@ -343,6 +440,7 @@ export class ZeroXIOWallet extends EventEmitter {
         const networkInfo = getNetworkConfig(networkId);
         if (this.connectionInfo.isConnected) {
           this.connectionInfo.networkInfo = networkInfo;
+          this.syncStore();
         }
       }
 
@@ -364,8 +462,161 @@ export class ZeroXIOWallet extends EventEmitter {
     return this.connectionInfo.address || null;
   }
 
-  async getBalance(forceRefresh = false): Promise<Balance> {
+  /**
+   * Every account the wallet has authorized for this origin (RFC-O-1
+   * `octra_accounts`). The active account is `getAddress()`. Resolves with an
+   * empty list while disconnected. No popup.
+   */
+  async getAccounts(options: RequestOptions = {}): Promise<string[]> {
+    this.ensureInitialized();
+    if (!this.connectionInfo.isConnected) return [];
+
+    try {
+      const sv = this._sessionVersion;
+      const result = await this.communicator.sendRequest('get_accounts', {}, options);
+      const accounts = this.normalizeAccounts(result, this.connectionInfo.address);
+
+      // skip if session changed mid-flight
+      if (this._sessionVersion === sv) this.applyAccounts(accounts);
+
+      return accounts;
+    } catch (error) {
+      this.logger.error('Failed to get accounts:', error);
+      if (error instanceof ZeroXIOWalletError) throw error;
+      throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'Failed to get accounts', error);
+    }
+  }
+
+  /**
+   * Ask the user to authorize more accounts for this origin (RFC-O-1
+   * `octra_requestAccounts`). Opens a wallet popup; resolves with the full list.
+   */
+  async requestAccounts(options: RequestOptions = {}): Promise<string[]> {
+    this.ensureConnected();
+
+    try {
+      const sv = this._sessionVersion;
+      const result = await this.communicator.sendRequest('request_accounts', {
+        permissions: this.connectionInfo.permissions ?? []
+      }, options);
+      const accounts = this.normalizeAccounts(result, this.connectionInfo.address);
+
+      // skip if session changed mid-flight
+      if (this._sessionVersion === sv) this.applyAccounts(accounts);
+
+      return accounts;
+    } catch (error) {
+      this.logger.error('Failed to request accounts:', error);
+      if (error instanceof ZeroXIOWalletError) throw error;
+      throw new ZeroXIOWalletError(ErrorCode.USER_REJECTED, 'Account request failed', error);
+    }
+  }
+
+  /**
+   * Make another authorized account the active one. Emits `accountChanged`
+   * (and updates `wallet.store`) once the wallet has switched.
+   */
+  async selectAccount(address: string, options: RequestOptions = {}): Promise<void> {
+    this.ensureConnected();
+
+    if (!isValidAddress(address)) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid account address');
+    }
+    const accounts = this.connectionInfo.accounts ?? [];
+    if (!accounts.includes(address)) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.PERMISSION_DENIED,
+        'Account is not authorized for this origin. Call requestAccounts() first.',
+        { address, accounts: [...accounts] }
+      );
+    }
+    if (this.connectionInfo.address === address) return;
+
+    try {
+      const sv = this._sessionVersion;
+      const result = await this.communicator.sendRequest('select_account', { address }, options);
+
+      // the wallet's accountChanged event may have applied the switch already
+      if (this._sessionVersion === sv && this.connectionInfo.address !== address) {
+        this.handleAccountChanged({
+          address,
+          publicKey: typeof result?.publicKey === 'string' ? result.publicKey : undefined,
+          balance: result?.balance,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to select account:', error);
+      if (error instanceof ZeroXIOWalletError) throw error;
+      throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'Failed to select account', error);
+    }
+  }
+
+  /**
+   * True when the wallet has granted `permission` to this origin.
+   */
+  hasPermission(permission: Permission): boolean {
+    return this.connectionInfo.isConnected && (this.connectionInfo.permissions ?? []).includes(permission);
+  }
+
+  /**
+   * Ask for more permission scopes after connecting — e.g. privacy scopes only
+   * when the user opens a privacy screen. Only the missing scopes go to the
+   * wallet (popup). Resolves with every granted permission.
+   */
+  async requestPermissions(permissions: Permission[], options: RequestOptions = {}): Promise<Permission[]> {
+    this.ensureConnected();
+    this.validatePermissions(permissions);
+
+    const granted = this.connectionInfo.permissions ?? [];
+    const missing = permissions.filter((p) => !granted.includes(p));
+    if (missing.length === 0) return [...granted];
+
+    try {
+      const sv = this._sessionVersion;
+      const result = await this.communicator.sendRequest('request_permissions', { permissions: missing }, options);
+      const updated = this.normalizePermissions(result) ?? [...granted, ...missing];
+
+      // skip if session changed mid-flight
+      if (this._sessionVersion === sv) this.applyPermissions(updated);
+
+      return [...updated];
+    } catch (error) {
+      this.logger.error('Permission request failed:', error);
+      if (error instanceof ZeroXIOWalletError) throw error;
+      throw new ZeroXIOWalletError(ErrorCode.USER_REJECTED, 'Permission request failed', error);
+    }
+  }
+
+  /**
+   * Give up permission scopes. Resolves with the permissions that remain.
+   */
+  async revokePermissions(permissions: Permission[], options: RequestOptions = {}): Promise<Permission[]> {
+    this.ensureConnected();
+    this.validatePermissions(permissions);
+
+    const granted = this.connectionInfo.permissions ?? [];
+    const revoked = permissions.filter((p) => granted.includes(p));
+    if (revoked.length === 0) return [...granted];
+
+    try {
+      const sv = this._sessionVersion;
+      const result = await this.communicator.sendRequest('revoke_permissions', { permissions: revoked }, options);
+      const updated = this.normalizePermissions(result) ?? granted.filter((p) => !revoked.includes(p));
+
+      // skip if session changed mid-flight
+      if (this._sessionVersion === sv) this.applyPermissions(updated);
+
+      return [...updated];
+    } catch (error) {
+      this.logger.error('Permission revocation failed:', error);
+      if (error instanceof ZeroXIOWalletError) throw error;
+      throw new ZeroXIOWalletError(ErrorCode.UNKNOWN_ERROR, 'Failed to revoke permissions', error);
+    }
+  }
+
+  async getBalance(forceRefresh = false, options: RequestOptions = {}): Promise<Balance> {
     this.ensureConnected();
+    this.ensurePermissions('read_balance');
 
     try {
       const address = this.getAddress();
@@ -374,22 +625,17 @@ export class ZeroXIOWallet extends EventEmitter {
       }
 
       // Fetch balance from extension (bypasses CORS, has access to private balance)
-      let publicBalance = 0;
-      let privateBalance = 0;
-
       const sv = this._sessionVersion;
-      const extResult = await this.communicator.sendRequest('getBalance', { forceRefresh });
-      publicBalance = parseFloat(extResult.balance || '0');
-      privateBalance = parseFloat(extResult.privateBalance || '0');
-
-      this.logger.log('Balance fetched from extension:', { public: publicBalance });
+      const extResult = await this.communicator.sendRequest('getBalance', { forceRefresh }, options);
+      const result = validateBalance({
+        public: extResult?.balance || '0',
+        private: extResult?.privateBalance || '0'
+      });
+      if (!result) {
+        throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Extension returned an invalid balance');
+      }
 
-      const result: Balance = {
-        public: publicBalance,
-        private: privateBalance,
-        total: publicBalance + privateBalance,
-        currency: 'OCT'
-      };
+      this.logger.log('Balance fetched from extension:', { public: result.public });
 
       // skip if session changed mid-flight
       if (this._sessionVersion !== sv) return result;
@@ -398,10 +644,11 @@ export class ZeroXIOWallet extends EventEmitter {
         const previousBalance = this.connectionInfo.balance;
         this.connectionInfo.balance = result;
 
+        // keep the previous snapshot when nothing moved
+        if (!this.balancesEqual(previousBalance, result)) this.syncStore();
+
         // emit on total or pub/priv split change
-        if (previousBalance.total !== result.total ||
-            previousBalance.public !== result.public ||
-            previousBalance.private !== result.private) {
+        if (!this.balancesEqual(previousBalance, result)) {
           const balanceChangedEvent: BalanceChangedEvent = {
             address: this.connectionInfo.address!,
             previousBalance,
@@ -412,6 +659,7 @@ export class ZeroXIOWallet extends EventEmitter {
         }
       } else {
         this.connectionInfo.balance = result;
+        this.syncStore();
       }
 
       return result;
@@ -425,12 +673,12 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
-  async getNetworkInfo(): Promise<NetworkInfo> {
+  async getNetworkInfo(options: RequestOptions = {}): Promise<NetworkInfo> {
     this.ensureInitialized();
 
     try {
       const sv = this._sessionVersion;
-      const result = await this.communicator.sendRequest('get_network_info');
+      const result = await this.communicator.sendRequest('get_network_info', {}, options);
 
       const networkInfo = validateNetworkInfo(result);
       if (!networkInfo) {
@@ -443,6 +691,7 @@ export class ZeroXIOWallet extends EventEmitter {
       if (this.connectionInfo.networkInfo) {
         const previousNetwork = this.connectionInfo.networkInfo;
         this.connectionInfo.networkInfo = networkInfo;
+        this.syncStore();
 
         if (previousNetwork.id !== networkInfo.id) {
           const networkChangedEvent: NetworkChangedEvent = {
@@ -450,10 +699,12 @@ export class ZeroXIOWallet extends EventEmitter {
             newNetwork: networkInfo
           };
 
+          this.syncPersistedSession();
           this.emit('networkChanged', networkChangedEvent);
         }
       } else {
         this.connectionInfo.networkInfo = networkInfo;
+        this.syncStore();
       }
 
       return networkInfo;
@@ -467,26 +718,20 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
-  async sendTransaction(txData: TransactionData): Promise<TransactionResult> {
+  async sendTransaction(txData: TransactionData, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('send_transactions');
 
-    if (!isValidAddress(txData.to)) {
-      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid recipient address');
-    }
-    if (!isValidAmount(txData.amount)) {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Invalid transaction amount');
-    }
-    if (txData.message && txData.message.length > 1000) {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Transaction message too long (max 1,000 characters)');
-    }
+    this.assertValidTransaction(txData);
 
     try {
       // log non-sensitive only
       this.logger.log('Sending transaction:', { to: txData.to });
 
-      const result = await this.communicator.sendRequest('send_transaction', txData);
+      const result = await this.communicator.sendRequest('send_transaction', this.toWireTransaction(txData), options);
 
       this.logger.log('Transaction result:', result);
+      this.addPendingTransaction(result, 'transfer');
 
       // Refresh balance after successful transaction (accept RFC 'accepted' or legacy 'success')
       if (result.accepted ?? result.success) {
@@ -514,25 +759,79 @@ export class ZeroXIOWallet extends EventEmitter {
   }
 
   /**
-   * Sign a transaction without broadcasting it (RFC-O-1 octra_signTransaction).
-   * Returns the signed transaction object for manual submission via submitTransaction().
+   * Send several transfers with a single approval.
+   * The wallet signs them with sequential nonces and submits them together
+   * (octra_submitBatch). Individual failures are reported per item — check
+   * `results[i].error` rather than relying on the promise rejecting.
    */
-  async signTransaction(txData: TransactionData): Promise<{ signedTx: any }> {
+  async sendTransactions(transactions: TransactionData[], options: RequestOptions = {}): Promise<BatchTransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('send_transactions');
 
-    if (!isValidAddress(txData.to)) {
-      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid recipient address');
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'transactions must be a non-empty array');
     }
-    if (!isValidAmount(txData.amount)) {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Invalid transaction amount');
+    if (transactions.length > SDK_CONFIG.maxBatchSize) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.TRANSACTION_FAILED,
+        `Too many transactions in batch (max ${SDK_CONFIG.maxBatchSize})`
+      );
     }
-    if (txData.message && txData.message.length > 1000) {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Transaction message too long (max 1,000 characters)');
+    transactions.forEach((txData, i) => this.assertValidTransaction(txData, `Transaction ${i}: `));
+
+    try {
+      // log non-sensitive only
+      this.logger.log('Sending transaction batch:', { count: transactions.length });
+
+      const result = await this.communicator.sendRequest('send_transactions', {
+        transactions: transactions.map(txData => this.toWireTransaction(txData))
+      }, options);
+      const batch = normalizeBatchResults(
+        result,
+        transactions.length,
+        this.connectionInfo.networkInfo?.explorerUrl
+      );
+
+      this.logger.log('Batch result:', { accepted: batch.acceptedCount, rejected: batch.rejectedCount });
+      batch.results.forEach((item) => this.addPendingTransaction(item.error ? undefined : item, 'transfer'));
+
+      if (batch.acceptedCount > 0) {
+        setTimeout(() => {
+          this.getBalance(true).catch(error => {
+            this.logger.warn('Failed to refresh balance after batch:', error);
+          });
+        }, 1000);
+      }
+
+      return batch;
+    } catch (error) {
+      this.logger.error('Batch transaction failed:', error);
+
+      if (error instanceof ZeroXIOWalletError) {
+        throw error;
+      }
+
+      throw new ZeroXIOWalletError(
+        ErrorCode.TRANSACTION_FAILED,
+        'Failed to send transaction batch',
+        error
+      );
     }
+  }
+
+  /**
+   * Sign a transaction without broadcasting it (RFC-O-1 octra_signTransaction).
+   * Returns the signed transaction object for manual submission via submitTransaction().
+   */
+  async signTransaction(txData: TransactionData, options: RequestOptions = {}): Promise<{ signedTx: any }> {
+    this.ensureConnected();
+    this.ensurePermissions('send_transactions');
+
+    this.assertValidTransaction(txData);
 
     try {
       this.logger.log('Requesting transaction signature:', { to: txData.to });
-      const result = await this.communicator.sendRequest('sign_transaction', txData);
+      const result = await this.communicator.sendRequest('sign_transaction', this.toWireTransaction(txData), options);
       return result;
     } catch (error) {
       if (error instanceof ZeroXIOWalletError) throw error;
@@ -544,8 +843,9 @@ export class ZeroXIOWallet extends EventEmitter {
    * Broadcast a pre-signed transaction (RFC-O-1 octra_submitTransaction).
    * Use after signTransaction() to submit the signed tx to the network.
    */
-  async submitTransaction(signedTx: any): Promise<TransactionResult> {
+  async submitTransaction(signedTx: any, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('send_transactions');
 
     if (!signedTx || typeof signedTx !== 'object') {
       throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'signedTx must be an object');
@@ -553,7 +853,8 @@ export class ZeroXIOWallet extends EventEmitter {
 
     try {
       this.logger.log('Submitting pre-signed transaction');
-      const result = await this.communicator.sendRequest('broadcast_only', { signedTx });
+      const result = await this.communicator.sendRequest('broadcast_only', { signedTx }, options);
+      this.addPendingTransaction(result, 'submit');
       return result;
     } catch (error) {
       if (error instanceof ZeroXIOWalletError) throw error;
@@ -565,28 +866,24 @@ export class ZeroXIOWallet extends EventEmitter {
    * Call a smart contract method (state-changing).
    * The extension builds, signs, and submits the transaction via octra_submit.
    */
-  async callContract(callData: ContractCallData): Promise<TransactionResult> {
+  async callContract(callData: ContractCallData, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('contract_calls');
 
-    if (!isValidAddress(callData.contract)) {
-      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid contract address');
-    }
-    if (!callData.method || typeof callData.method !== 'string') {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract method is required');
-    }
-    if (callData.method.length > 200) {
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract method name too long (max 200 characters)');
-    }
-    if (callData.amount != null) {
-      this.assertExactOCTAmount(callData.amount, 'Contract call amount');
-    }
-    try {
-      if (JSON.stringify(callData.params).length > 65536) {
-        throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract params too large (max 64 KB)');
+    const { params, amount: callAmount } = this.prepareContractCall(callData);
+    let ou = callData.ou != null ? String(callData.ou) : '10000';
+
+    if (ou === 'auto') {
+      const simulation = await this.simulateContractCall(callData, options);
+      if (!simulation.success) {
+        throw new ZeroXIOWalletError(
+          ErrorCode.TRANSACTION_FAILED,
+          `Contract call would fail: ${simulation.revertReason ?? 'reverted'}`,
+          { simulation }
+        );
       }
-    } catch (e) {
-      if (e instanceof ZeroXIOWalletError) throw e;
-      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract params are not serialisable');
+      const margin = this.config.ouSafetyMargin ?? SDK_CONFIG.ouSafetyMargin;
+      ou = String(Math.max(1, Math.ceil(simulation.ouConsumed * (1 + margin))));
     }
 
     try {
@@ -596,12 +893,13 @@ export class ZeroXIOWallet extends EventEmitter {
       const result = await this.communicator.sendRequest('call_contract', {
         contract: callData.contract,
         method: callData.method,
-        params: callData.params,
-        amount: callData.amount != null ? String(callData.amount) : '0',
-        ou: callData.ou != null ? String(callData.ou) : '10000',
-      });
+        params,
+        amount: callAmount.toString(),
+        ou,
+      }, options);
 
       this.logger.log('Contract call result:', result);
+      this.addPendingTransaction(result, 'contract_call');
       return result;
     } catch (error) {
       this.logger.error('Contract call failed:', error);
@@ -618,11 +916,73 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
+  /**
+   * Dry-run a state-changing contract call: predicted result, OU consumed, revert
+   * reason and fee. Nothing is signed or submitted. Asks the wallet first and falls
+   * back to the network's rpcUrl when the wallet cannot simulate.
+   */
+  async simulateContractCall(callData: ContractCallData, options: RequestOptions = {}): Promise<ContractSimulationResult> {
+    this.ensureInitialized();
+
+    const { params, amount } = this.prepareContractCall(callData);
+    const caller = this.connectionInfo.isConnected ? this.getAddress() : null;
+
+    if (this.walletSimulation !== 'unsupported') {
+      try {
+        this.logger.log('Simulating contract call:', { contract: callData.contract, method: callData.method });
+
+        // Until the wallet has answered once, probe with a short timeout so a wallet
+        // that ignores the method does not hold ou: 'auto' for the full request timeout
+        const result = await this.communicator.sendRequest('simulate_contract_call', {
+          contract: callData.contract,
+          method: callData.method,
+          params,
+          amount: amount.toString(),
+          ...(caller ? { caller } : {}),
+        }, this.walletSimulation === 'supported'
+          ? options
+          : { ...options, timeout: SDK_CONFIG.simulationProbeTimeout });
+        this.walletSimulation = 'supported';
+        return normalizeSimulation(result);
+      } catch (error) {
+        const code = error instanceof ZeroXIOWalletError ? error.code : null;
+        // deliberate refusals are final; anything else may just mean the wallet cannot simulate
+        if (code === ErrorCode.USER_REJECTED || code === ErrorCode.WALLET_LOCKED ||
+            code === ErrorCode.PERMISSION_DENIED || code === ErrorCode.RATE_LIMIT_EXCEEDED ||
+            code === ErrorCode.ABORTED) {
+          throw error;
+        }
+        // remembered for this wallet instance — later simulations go straight to RPC
+        if (this.walletSimulation === 'unknown') this.walletSimulation = 'unsupported';
+        this.logger.warn('Wallet simulation unavailable, falling back to RPC:', error);
+      }
+    }
+
+    try {
+      const network = this.connectionInfo.networkInfo
+        ?? getNetworkConfig(this.config.networkId || SDK_CONFIG.defaultNetworkId);
+      const rpc = new OctraRpcClient(network, { debug: this.config.debug });
+      return await rpc.simulateContractCall({ ...callData, params, amount }, caller ?? undefined);
+    } catch (error) {
+      this.logger.error('Contract simulation failed:', error);
+
+      if (error instanceof ZeroXIOWalletError) {
+        throw error;
+      }
+
+      throw new ZeroXIOWalletError(
+        ErrorCode.NETWORK_ERROR,
+        'Failed to simulate contract call',
+        error
+      );
+    }
+  }
+
   /**
    * Read-only contract view call (no signing, no approval popup).
    * Use this to query contract state without submitting a transaction.
    */
-  async contractCallView(viewData: ContractViewCallData): Promise<any> {
+  async contractCallView(viewData: ContractViewCallData, options: RequestOptions = {}): Promise<any> {
     this.ensureInitialized();
 
     if (!isValidAddress(viewData.contract)) {
@@ -634,14 +994,7 @@ export class ZeroXIOWallet extends EventEmitter {
     if (viewData.method.length > 200) {
       throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract method name too long (max 200 characters)');
     }
-    try {
-      if (JSON.stringify(viewData.params).length > 65536) {
-        throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract params too large (max 64 KB)');
-      }
-    } catch (e) {
-      if (e instanceof ZeroXIOWalletError) throw e;
-      throw new ZeroXIOWalletError(ErrorCode.NETWORK_ERROR, 'Contract params are not serialisable');
-    }
+    const { params } = encodeContractParams(viewData.params);
 
     try {
       // log non-sensitive only
@@ -650,10 +1003,10 @@ export class ZeroXIOWallet extends EventEmitter {
       const result = await this.communicator.sendRequest('contract_call_view', {
         contract: viewData.contract,
         method: viewData.method,
-        params: viewData.params,
+        params,
         // only include caller if explicit
         ...(viewData.caller != null ? { caller: viewData.caller } : {}),
-      });
+      }, options);
 
       this.logger.log('Contract view result:', result);
       return result;
@@ -675,7 +1028,7 @@ export class ZeroXIOWallet extends EventEmitter {
   /**
    * Read contract storage by key.
    */
-  async getContractStorage(contract: string, key: string): Promise<string | null> {
+  async getContractStorage(contract: string, key: string, options: RequestOptions = {}): Promise<string | null> {
     this.ensureInitialized();
 
     if (!isValidAddress(contract)) {
@@ -694,7 +1047,7 @@ export class ZeroXIOWallet extends EventEmitter {
       const result = await this.communicator.sendRequest('get_contract_storage', {
         contract,
         key,
-      });
+      }, options);
 
       return result;
     } catch (error) {
@@ -715,17 +1068,18 @@ export class ZeroXIOWallet extends EventEmitter {
   /**
    * Get transaction history
    */
-  async getTransactionHistory(page = 1, limit = 20): Promise<TransactionHistory> {
+  async getTransactionHistory(page = 1, limit = 20, options: RequestOptions = {}): Promise<TransactionHistory> {
     this.ensureConnected();
 
     try {
       const result = await this.communicator.sendRequest('get_transaction_history', {
         page,
         limit
-      });
+      }, options);
 
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.NETWORK_ERROR,
         'Failed to get transaction history',
@@ -734,13 +1088,70 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
-  async getPrivateBalanceInfo(): Promise<PrivateBalanceInfo> {
+  /**
+   * Look up a single transaction by hash. Resolves null when it is not known yet.
+   */
+  async getTransaction(hash: string, options: RequestOptions = {}): Promise<Transaction | null> {
+    this.ensureConnected();
+
+    try {
+      const result = await this.communicator.sendRequest('get_transaction', { hash }, options);
+      return result ? normalizeTransaction({ hash, ...result }) : null;
+    } catch (error) {
+      if (error instanceof ZeroXIOWalletError) {
+        throw error;
+      }
+
+      throw new ZeroXIOWalletError(
+        ErrorCode.NETWORK_ERROR,
+        'Failed to get transaction',
+        error
+      );
+    }
+  }
+
+  /**
+   * Create a tracker for a submitted transaction. Call wait() on it to start
+   * following the hash; subscribe with onProgress() for intermediate states.
+   */
+  trackTransaction(hash: string, options: WaitForTransactionOptions = {}): TransactionTracker {
+    this.ensureConnected();
+
+    // registered for push updates only once wait() runs — a tracker that is never
+    // awaited is not retained
+    const tracker = new TransactionTracker(
+      hash,
+      (h) => this.getTransaction(h, { signal: options.signal }),
+      options,
+      (started) => {
+        this.pruneTrackers();
+        this.trackers.add(started);
+      }
+    );
+    tracker.onProgress((event) => {
+      if (event.status !== 'pending') this.settlePendingTransaction(event.hash);
+    });
+
+    return tracker;
+  }
+
+  /**
+   * Wait until a transaction reaches the requested number of confirmations.
+   * Rejects with TRANSACTION_FAILED if it is rejected or dropped, NETWORK_ERROR on timeout.
+   */
+  async waitForTransaction(hash: string, options: WaitForTransactionOptions = {}): Promise<Transaction> {
+    return this.trackTransaction(hash, options).wait();
+  }
+
+  async getPrivateBalanceInfo(options: RequestOptions = {}): Promise<PrivateBalanceInfo> {
     this.ensureConnected();
+    this.ensurePermissions('view_private_balance');
 
     try {
-      const result = await this.communicator.sendRequest('get_private_balance_info');
+      const result = await this.communicator.sendRequest('get_private_balance_info', {}, options);
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.PERMISSION_DENIED,
         'Failed to get private balance info',
@@ -752,16 +1163,18 @@ export class ZeroXIOWallet extends EventEmitter {
   /**
    * Encrypt public balance to private
    */
-  async encryptBalance(amount: string | number): Promise<TransactionResult> {
+  async encryptBalance(amount: OctAmountInput, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
-    this.assertExactOCTAmount(amount, 'Encrypt amount');
+    this.ensurePermissions('encrypt_balance');
+    const exact = this.parseAmount(amount, 'Encrypt amount');
 
-    if (!isValidAmount(amount)) {
+    if (!exact.isPositive()) {
       throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Invalid amount');
     }
 
     try {
-      const result = await this.communicator.sendRequest('encrypt_balance', { amount });
+      const result = await this.communicator.sendRequest('encrypt_balance', { amount: exact.toString() }, options);
+      this.addPendingTransaction(result, 'encrypt');
 
       // Refresh balance after encryption
       setTimeout(() => {
@@ -770,6 +1183,7 @@ export class ZeroXIOWallet extends EventEmitter {
 
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.TRANSACTION_FAILED,
         'Failed to encrypt balance',
@@ -781,16 +1195,18 @@ export class ZeroXIOWallet extends EventEmitter {
   /**
    * Decrypt private balance to public
    */
-  async decryptBalance(amount: string | number): Promise<TransactionResult> {
+  async decryptBalance(amount: OctAmountInput, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
-    this.assertExactOCTAmount(amount, 'Decrypt amount');
+    this.ensurePermissions('decrypt_balance');
+    const exact = this.parseAmount(amount, 'Decrypt amount');
 
-    if (!isValidAmount(amount)) {
+    if (!exact.isPositive()) {
       throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Invalid amount');
     }
 
     try {
-      const result = await this.communicator.sendRequest('decrypt_balance', { amount });
+      const result = await this.communicator.sendRequest('decrypt_balance', { amount: exact.toString() }, options);
+      this.addPendingTransaction(result, 'decrypt');
 
       // Refresh balance after decryption
       setTimeout(() => {
@@ -799,6 +1215,7 @@ export class ZeroXIOWallet extends EventEmitter {
 
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.TRANSACTION_FAILED,
         'Failed to decrypt balance',
@@ -815,23 +1232,28 @@ export class ZeroXIOWallet extends EventEmitter {
    * Requires 'private_transfers' permission.
    * @since 2.6.0
    */
-  async sendPrivateTransfer(transferData: PrivateTransferData): Promise<TransactionResult> {
+  async sendPrivateTransfer(transferData: PrivateTransferData, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('private_transfers');
 
     if (!isValidAddress(transferData.to)) {
       throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid recipient address');
     }
-    if (!isValidAmount(transferData.amount)) {
+    const transferAmount = this.parseAmount(transferData.amount, 'Transfer amount');
+    if (!transferAmount.isPositive()) {
       throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Invalid transfer amount');
     }
-    this.assertExactOCTAmount(transferData.amount, 'Transfer amount');
     // bound msg size
     if (transferData.message && transferData.message.length > 1000) {
       throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Transfer message too long (max 1,000 characters)');
     }
 
     try {
-      const result = await this.communicator.sendRequest('send_private_transfer', transferData);
+      const result = await this.communicator.sendRequest('send_private_transfer', {
+        ...transferData,
+        amount: transferAmount.toString()
+      }, options);
+      this.addPendingTransaction(result, 'private_transfer');
 
       // Refresh balance after transfer (accept RFC 'accepted' or legacy 'success')
       if (result.accepted ?? result.success) {
@@ -842,6 +1264,7 @@ export class ZeroXIOWallet extends EventEmitter {
 
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.TRANSACTION_FAILED,
         'Failed to send private transfer',
@@ -855,13 +1278,15 @@ export class ZeroXIOWallet extends EventEmitter {
    * Returns transfers where the connected address is the recipient.
    * @since 2.6.0
    */
-  async getPendingPrivateTransfers(): Promise<PendingPrivateTransfer[]> {
+  async getPendingPrivateTransfers(options: RequestOptions = {}): Promise<PendingPrivateTransfer[]> {
     this.ensureConnected();
+    this.ensurePermissions('stealth_scan');
 
     try {
-      const result = await this.communicator.sendRequest('get_pending_private_transfers');
+      const result = await this.communicator.sendRequest('get_pending_private_transfers', {}, options);
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.NETWORK_ERROR,
         'Failed to get pending private transfers',
@@ -874,8 +1299,9 @@ export class ZeroXIOWallet extends EventEmitter {
    * Claim a pending private transfer, adding it to the wallet's encrypted balance.
    * @since 2.6.0
    */
-  async claimPrivateTransfer(transferId: string): Promise<TransactionResult> {
+  async claimPrivateTransfer(transferId: string, options: RequestOptions = {}): Promise<TransactionResult> {
     this.ensureConnected();
+    this.ensurePermissions('stealth_claim');
 
     // validate transfer ID
     if (!transferId || typeof transferId !== 'string') {
@@ -885,7 +1311,8 @@ export class ZeroXIOWallet extends EventEmitter {
     try {
       const result = await this.communicator.sendRequest('claim_private_transfer', {
         transferId
-      });
+      }, options);
+      this.addPendingTransaction(result, 'claim');
 
       // Refresh balance after claiming (accept RFC 'accepted' or legacy 'success')
       if (result.accepted ?? result.success) {
@@ -896,6 +1323,7 @@ export class ZeroXIOWallet extends EventEmitter {
 
       return result;
     } catch (error) {
+      if (isErrorType(error, ErrorCode.ABORTED)) throw error;
       throw new ZeroXIOWalletError(
         ErrorCode.TRANSACTION_FAILED,
         'Failed to claim private transfer',
@@ -908,6 +1336,7 @@ export class ZeroXIOWallet extends EventEmitter {
    * Sign an arbitrary message with the wallet's private key
    * The user will be prompted to approve the signature request in the extension
    * @param message - The message to sign (non-empty string)
+   * @param options - `signal` aborts the request (ABORTED) and closes the popup
    * @returns Promise resolving to the base64-encoded Ed25519 signature
    * @throws ZeroXIOWalletError with code SIGNATURE_FAILED if signing fails
    * @example
@@ -916,8 +1345,9 @@ export class ZeroXIOWallet extends EventEmitter {
    * console.log('Signature:', signature);
    * ```
    */
-  async signMessage(message: string): Promise<string> {
+  async signMessage(message: string, options: RequestOptions = {}): Promise<string> {
     this.ensureConnected();
+    this.ensurePermissions('sign_messages');
 
     // Validate input
     if (!message || typeof message !== 'string') {
@@ -936,7 +1366,7 @@ export class ZeroXIOWallet extends EventEmitter {
 
     try {
       this.logger.log('Requesting message signature for:', message.substring(0, 100) + (message.length > 100 ? '...' : ''));
-      const result = await this.communicator.sendRequest('signMessage', { message });
+      const result = await this.communicator.sendRequest('signMessage', { message }, options);
 
       // Extension returns { signature: string }
       const signature = result?.signature || result;
@@ -958,17 +1388,81 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
+  /**
+   * Sign structured data (EIP-712 style). The value is hashed with a canonical
+   * typed encoding, so every client produces the same digest regardless of key
+   * order, and the wallet popup can show each field. `domain.origin` and
+   * `domain.networkId` default to the current page and network.
+   *
+   * @param domain - App name/version, origin, network and optionally the consuming contract
+   * @param types  - Struct definitions; the primary type is the one no other struct references
+   * @param value  - The object to sign
+   * @returns Promise resolving to the signed payload: the effective domain (with the
+   *   injected origin and network), primary type, digest and base64 Ed25519 signature
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<SignedTypedData> {
+    this.ensureConnected();
+    this.ensurePermissions('sign_messages');
+
+    const networkId = this.getNetworkId();
+    if (domain.networkId !== undefined && networkId && domain.networkId !== networkId) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.INVALID_PARAMS,
+        `Typed data is for network ${domain.networkId} but the wallet is on ${networkId}`
+      );
+    }
+    const origin = typeof window !== 'undefined' ? window.location.origin : undefined;
+    const payload = await createTypedDataPayload(
+      {
+        ...domain,
+        ...(domain.origin === undefined && origin ? { origin } : {}),
+        ...(domain.networkId === undefined && networkId ? { networkId } : {}),
+      },
+      types,
+      value
+    );
+
+    try {
+      this.logger.log('Requesting typed data signature:', { primaryType: payload.primaryType, digest: payload.digest });
+      const result = await this.communicator.sendRequest('sign_typed_data', payload, options);
+      const signature: string = result?.signature || result;
+
+      this.logger.log('Typed data signed successfully');
+      return { ...payload, signature };
+    } catch (error) {
+      this.logger.error('Sign typed data failed:', error);
+
+      if (error instanceof ZeroXIOWalletError) {
+        throw error;
+      }
+
+      throw new ZeroXIOWalletError(
+        ErrorCode.SIGNATURE_FAILED,
+        'Failed to sign typed data',
+        error
+      );
+    }
+  }
+
   /**
    * Sign a domain-separated authentication message.
    * Unlike `signMessage()`, this prepends a standard header that binds the signature
    * to the calling service and a one-time nonce, preventing cross-service replay attacks.
    *
+   * @deprecated Use `signInWithOctra()` — it adds address, network, URI and expiry,
+   * and has a server-side verifier (`verifySiwoMessage`).
    * @param service - Identifies the relying service (e.g. 'MyDApp' or 'api.mydapp.com')
    * @param nonce   - Unique one-time value — use a server-generated UUID or challenge
    * @returns Promise resolving to the base64-encoded Ed25519 signature
    */
-  async signAuthMessage(service: string, nonce: string): Promise<string> {
+  async signAuthMessage(service: string, nonce: string, options: RequestOptions = {}): Promise<string> {
     this.ensureConnected();
+    this.ensurePermissions('sign_messages');
 
     if (!service || typeof service !== 'string') {
       throw new ZeroXIOWalletError(ErrorCode.SIGNATURE_FAILED, 'Service name is required');
@@ -978,10 +1472,161 @@ export class ZeroXIOWallet extends EventEmitter {
     }
 
     const origin = typeof window !== 'undefined' ? window.location.origin : 'unknown';
-    const domainSeparated =
-      `0xio auth\nService: ${service}\nNonce: ${nonce}\nOrigin: ${origin}`;
+    return this.signMessage(formatAuthMessage({ service, nonce, origin }), options);
+  }
+
+  /**
+   * Sign-In With Octra: build a SIWO message for the connected account and
+   * network, have the wallet sign it, and return everything the server needs for
+   * `verifySiwoMessage()`. `domain` and `uri` default to the current page.
+   *
+   * @param options - At least the server-issued `nonce`; optional statement, expiry, resources
+   */
+  async signInWithOctra(options: SiwoSignInOptions): Promise<SiwoSignInResult> {
+    this.ensureConnected();
+    this.ensurePermissions('sign_messages');
+
+    const publicKey = this.connectionInfo.publicKey;
+    if (!publicKey) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.SIGNATURE_FAILED,
+        'Wallet did not share a public key — the sign-in could not be verified'
+      );
+    }
+
+    const location = typeof window !== 'undefined' ? window.location : undefined;
+    const message = createSiwoMessage({
+      ...options,
+      domain: options.domain ?? location?.host ?? '',
+      uri: options.uri ?? location?.origin ?? '',
+      address: this.getAddress()!,
+      networkId: this.getNetworkId() ?? this.config.networkId ?? SDK_CONFIG.defaultNetworkId,
+    });
+    const text = formatSiwoMessage(message);
+    const signature = await this.signMessage(text, { signal: options.signal, onQueuePosition: options.onQueuePosition });
+
+    return { message, text, signature, publicKey };
+  }
+
+  /**
+   * Silently restore a persisted session on initialize(): no popup, only
+   * getConnectionStatus(), which emits 'connect' when the wallet still
+   * authorizes this origin. Sessions from another adapter are dropped.
+   */
+  private async restoreSession(): Promise<void> {
+    if (!this.session) return;
+
+    const saved = await this.session.load();
+    if (!saved || this.connectionInfo.isConnected) return;
+
+    if (saved.adapter !== this.communicator.getAdapterName()) {
+      this.logger.log('Persisted session belongs to another adapter — dropping it:', saved.adapter);
+      await this.session.clear();
+      return;
+    }
+
+    this.logger.log('Restoring persisted session:', { address: saved.address, network: saved.networkId });
+    await this.getConnectionStatus();
+  }
+
+  /**
+   * Keep an existing persisted session in step with the live connection: refresh
+   * it while the same account stays connected, drop it when the wallet reports a
+   * different account. New sessions are only created by connect().
+   */
+  private syncPersistedSession(): void {
+    const saved = this.session?.session;
+    if (!this.session || !saved || !this.connectionInfo.isConnected) return;
+
+    if (this.connectionInfo.address !== saved.address) {
+      void this.session.clear();
+    } else {
+      void this.session.save(this.connectionInfo, this.communicator.getAdapterName());
+    }
+  }
+
+  /**
+   * Validate an account list from the wallet (string[] or { accounts }),
+   * dropping malformed and duplicate entries. The active address is kept first
+   * when the wallet left it out.
+   */
+  private normalizeAccounts(raw: unknown, active?: string | null): string[] {
+    const list: unknown[] = Array.isArray(raw) ? raw : Array.isArray((raw as any)?.accounts) ? (raw as any).accounts : [];
+    const accounts = Array.from(new Set(list.filter((a): a is string => typeof a === 'string' && isValidAddress(a))));
+    if (active && !accounts.includes(active)) accounts.unshift(active);
+    return accounts;
+  }
+
+  /** Same set of accounts — wallets reorder the list (active first) on every switch */
+  private sameAccounts(a: readonly string[], b: readonly string[]): boolean {
+    return a.length === b.length && a.every((address) => b.includes(address));
+  }
+
+  /** Store a new account list and emit accountsChanged when the set differs */
+  private applyAccounts(accounts: string[]): void {
+    const previousAccounts = this.connectionInfo.accounts ?? [];
+    if (!this.connectionInfo.isConnected || this.sameAccounts(previousAccounts, accounts)) return;
 
-    return this.signMessage(domainSeparated);
+    this.connectionInfo.accounts = accounts;
+    this.syncStore();
+
+    const accountsChangedEvent: AccountsChangedEvent = {
+      previousAccounts: [...previousAccounts],
+      accounts: [...accounts]
+    };
+    this.emit('accountsChanged', accountsChangedEvent);
+  }
+
+  /**
+   * Project connectionInfo and the lock flag onto the store snapshot. Pending
+   * transactions belong to the account that sent them and are dropped when the
+   * address changes or the wallet disconnects.
+   */
+  private syncStore(): void {
+    const state = this.stateStore.getState();
+    const info = this.connectionInfo;
+    const address = info.isConnected ? info.address ?? null : null;
+    const permissions = info.isConnected ? info.permissions ?? [] : [];
+    const accounts = info.isConnected ? info.accounts ?? [] : [];
+
+    this.stateStore.setState({
+      status: info.isConnected ? 'connected' : this.isLocked ? 'locked' : 'disconnected',
+      isConnected: info.isConnected,
+      isLocked: this.isLocked,
+      address,
+      publicKey: info.isConnected ? info.publicKey ?? null : null,
+      balance: info.isConnected ? info.balance ?? null : null,
+      network: info.isConnected ? info.networkInfo ?? null : null,
+      permissions: shallowEqual<readonly Permission[]>(state.permissions, permissions)
+        ? state.permissions
+        : Object.freeze([...permissions]),
+      accounts: shallowEqual<readonly string[]>(state.accounts, accounts)
+        ? state.accounts
+        : Object.freeze([...accounts]),
+      ...(address !== state.address && state.pendingTransactions.length > 0
+        ? { pendingTransactions: Object.freeze([]) }
+        : {}),
+    });
+  }
+
+  private addPendingTransaction(result: TransactionResult | undefined, kind: PendingTransactionKind): void {
+    const hash = result?.hash ?? result?.txHash;
+    if (!result || !hash || result.accepted === false || result.success === false) return;
+    if ((result.status ?? result.finality ?? 'pending') !== 'pending') return;
+
+    const pending = this.stateStore.getState().pendingTransactions;
+    if (pending.some((tx) => tx.hash === hash)) return;
+    this.stateStore.setState({
+      pendingTransactions: Object.freeze([...pending, Object.freeze({ hash, kind, submittedAt: Date.now() })]),
+    });
+  }
+
+  private settlePendingTransaction(hash: string | undefined): void {
+    const pending = this.stateStore.getState().pendingTransactions;
+    if (!hash || !pending.some((tx) => tx.hash === hash)) return;
+    this.stateStore.setState({
+      pendingTransactions: Object.freeze(pending.filter((tx) => tx.hash !== hash)),
+    });
   }
 
   private ensureInitialized(): void {
@@ -1004,11 +1649,62 @@ export class ZeroXIOWallet extends EventEmitter {
     }
   }
 
+  /**
+   * Fail fast when the wallet reported its grants and a required scope is missing,
+   * instead of letting the wallet reject the request.
+   */
+  private ensurePermissions(...required: Permission[]): void {
+    if (!this.permissionsReported) return;
+
+    const granted = this.connectionInfo.permissions ?? [];
+    const missing = required.filter((p) => !granted.includes(p));
+    if (missing.length > 0) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.PERMISSION_DENIED,
+        `Missing permission${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}. Call requestPermissions() first.`,
+        { missing }
+      );
+    }
+  }
+
+  private validatePermissions(permissions: Permission[]): void {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, 'Pass at least one permission');
+    }
+    const unknown = permissions.filter((p) => !PERMISSIONS.includes(p));
+    if (unknown.length > 0) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_PARAMS, `Unknown permission: ${unknown.join(', ')}`, { unknown });
+    }
+  }
+
+  /** Permission list from a wallet response (Permission[] or { permissions }); null when absent */
+  private normalizePermissions(raw: unknown): Permission[] | null {
+    const list = Array.isArray(raw) ? raw : Array.isArray((raw as any)?.permissions) ? (raw as any).permissions : null;
+    return list ? Array.from(new Set(list.filter((p: unknown): p is Permission => PERMISSIONS.includes(p as Permission)))) : null;
+  }
+
+  /** Store the granted permissions and emit permissionsChanged when the set differs */
+  private applyPermissions(permissions: Permission[]): void {
+    const previous = this.connectionInfo.permissions ?? [];
+    this.permissionsReported = true;
+    if (previous.length === permissions.length && previous.every((p) => permissions.includes(p))) return;
+
+    this.connectionInfo.permissions = permissions;
+    this.syncPersistedSession();
+    this.syncStore();
+    this.emit('permissionsChanged', [...permissions]);
+  }
+
   private setupExtensionEventListeners(): void {
     this.communicator.on('accountChanged', (event) => {
       this.handleAccountChanged(event.data);
     });
 
+    this.communicator.on('accountsChanged', (event) => {
+      if (!this.connectionInfo.isConnected) return;
+      this.applyAccounts(this.normalizeAccounts(event.data?.accounts ?? event.data, this.connectionInfo.address));
+    });
+
     this.communicator.on('networkChanged', (event) => {
       this.handleNetworkChanged(event.data);
     });
@@ -1032,42 +1728,65 @@ export class ZeroXIOWallet extends EventEmitter {
     this.communicator.on('permissionsChanged', (event) => {
       const permissions = event.data ?? event;
       if (this.connectionInfo.isConnected) {
-        this.connectionInfo.permissions = Array.isArray(permissions) ? permissions : [];
+        // requestPermissions()/revokePermissions() may have applied this list already
+        this.applyPermissions(this.normalizePermissions(permissions) ?? []);
+      } else {
+        this.emit('permissionsChanged', this.normalizePermissions(permissions) ?? []);
       }
-      this.emit('permissionsChanged', permissions);
     });
 
     this.communicator.on('message', (event) => {
       this.emit('message', event.data ?? event);
     });
 
+    // SDK-side only — adapters cannot inject this event (not in VALID_EVENT_TYPES)
+    this.communicator.on('approvalQueueChanged', (event) => {
+      this.emit('approvalQueueChanged', event.data);
+    });
+
     this.logger.log('Extension event listeners setup complete');
   }
 
   private handleAccountChanged(data: { address: string; balance?: Balance; publicKey?: string }): void {
+    if (!isValidAddress(data?.address)) {
+      this.logger.warn('Received invalid address in accountChanged event, ignoring');
+      return;
+    }
+    // selectAccount() may already have applied this switch
+    if (data.address === this.connectionInfo.address) return;
+
     ++this._sessionVersion;
     const previousAddress = this.connectionInfo.address;
+    const previousAccounts = this.connectionInfo.accounts ?? [];
 
     this.connectionInfo.address = data.address;
-    // clear stale pubkey on acct change
-    this.connectionInfo.publicKey = data.publicKey;
-    if (data.balance) {
-      const validated = validateBalance(data.balance);
-      if (validated) {
-        this.connectionInfo.balance = validated;
-      } else {
-        this.connectionInfo.balance = undefined;  // clear stale balance
-      }
+    // the active account is always one of the authorized ones
+    if (this.connectionInfo.isConnected && data.address && !previousAccounts.includes(data.address)) {
+      this.connectionInfo.accounts = [...previousAccounts, data.address];
     }
+    // clear stale pubkey and balance on acct change — they belonged to the previous account
+    const publicKey = typeof data.publicKey === 'string' ? data.publicKey : undefined;
+    const balance = validateBalance(data.balance) ?? undefined;
+    this.connectionInfo.publicKey = publicKey;
+    this.connectionInfo.balance = balance;
 
     const accountChangedEvent: AccountChangedEvent = {
       previousAddress,
       newAddress: data.address,
-      publicKey: data.publicKey,
-      balance: data.balance ?? this.connectionInfo.balance!
+      publicKey,
+      balance
     };
 
+    this.syncPersistedSession();
+    this.syncStore();
     this.emit('accountChanged', accountChangedEvent);
+    if (this.connectionInfo.accounts && this.connectionInfo.accounts !== previousAccounts) {
+      const accountsChangedEvent: AccountsChangedEvent = {
+        previousAccounts: [...previousAccounts],
+        accounts: [...this.connectionInfo.accounts]
+      };
+      this.emit('accountsChanged', accountsChangedEvent);
+    }
 
     this.logger.log('Account changed:', { newAddress: accountChangedEvent.newAddress });
   }
@@ -1091,6 +1810,7 @@ export class ZeroXIOWallet extends EventEmitter {
       newNetwork: networkInfo
     };
 
+    this.syncStore();
     this.emit('networkChanged', networkChangedEvent);
 
     this.logger.log('Network changed:', networkChangedEvent);
@@ -1102,12 +1822,18 @@ export class ZeroXIOWallet extends EventEmitter {
       this.logger.warn('Received invalid balance in balanceChanged event, ignoring');
       return;
     }
+    const address = this.connectionInfo.address;
+    if (!address) {
+      this.logger.warn('Received balanceChanged event while disconnected, ignoring');
+      return;
+    }
 
     const previousBalance = this.connectionInfo.balance;
     this.connectionInfo.balance = balance;
+    this.syncStore();
 
     const balanceChangedEvent: BalanceChangedEvent = {
-      address: this.connectionInfo.address!,
+      address,
       previousBalance,
       newBalance: balance
     };
@@ -1120,6 +1846,8 @@ export class ZeroXIOWallet extends EventEmitter {
   private handleExtensionLocked(): void {
     ++this._sessionVersion;
     this.connectionInfo = { isConnected: false };
+    this.isLocked = true;
+    this.syncStore();
 
     this.emit('extensionLocked', {});
 
@@ -1133,52 +1861,125 @@ export class ZeroXIOWallet extends EventEmitter {
   }
 
   private handleExtensionUnlocked(): void {
+    // the store goes straight from 'locked' to the restored status, without a 'disconnected' flicker
+    this.isLocked = false;
     this.emit('extensionUnlocked', {});
     this.getConnectionStatus().catch(() => {
       this.logger.warn('Could not restore connection after unlock');
-    });
+    }).finally(() => this.syncStore());
 
     this.logger.log('Extension unlocked');
   }
 
   private handleTransactionConfirmed(data: any): void {
-    this.emit('transactionConfirmed', {
-      txHash: data.txHash,
-      transaction: data.transaction,
-      confirmations: data.confirmations
-    });
+    const hash = data?.txHash ?? data?.transaction?.hash;
+    if (typeof hash !== 'string' || !hash) {
+      this.logger.warn('Received transactionConfirmed event without a hash, ignoring');
+      return;
+    }
+    const transactionConfirmedEvent: TransactionConfirmedEvent = {
+      txHash: hash,
+      transaction: normalizeTransaction({ status: 'confirmed', ...data.transaction, hash }),
+      confirmations: typeof data.confirmations === 'number' ? data.confirmations : undefined
+    };
+
+    this.emit('transactionConfirmed', transactionConfirmedEvent);
+
+    this.pruneTrackers();
+    this.settlePendingTransaction(hash);
+    for (const tracker of this.trackers) {
+      if (tracker.hash !== hash) continue;
+      tracker.update(transactionConfirmedEvent.transaction, transactionConfirmedEvent.confirmations);
+    }
 
     // Refresh balance after transaction confirmation
     setTimeout(() => {
       this.getBalance(true).catch(() => { });
     }, 2000);
 
-    this.logger.log('Transaction confirmed:', data.txHash);
+    this.logger.log('Transaction confirmed:', hash);
   }
 
   /**
-   * Reject numeric amounts that cannot be represented exactly in micro-OCT.
-   * e.g. 0.1 + 0.2 = 0.30000000000000004 — the extension would sign the wrong value.
-   * String amounts bypass this check (caller is responsible for correctness).
+   * Shared validation for callContract / simulateContractCall.
    */
-  private assertExactOCTAmount(amount: string | number, label: string): void {
-    if (typeof amount === 'number') {
-      const micro = Math.round(amount * 1_000_000);
-      if (Math.abs(amount - micro / 1_000_000) > 1e-10) {
-        const suggested = (micro / 1_000_000).toFixed(6);
-        throw new ZeroXIOWalletError(
-          ErrorCode.INVALID_AMOUNT,
-          `${label} cannot be represented exactly in micro-OCT. ` +
-          `Pass a string instead (e.g. "${suggested}").`
-        );
-      }
+  private prepareContractCall(callData: ContractCallData): { params: WireContractParam[]; amount: OctAmount } {
+    if (!isValidAddress(callData.contract)) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, 'Invalid contract address');
+    }
+    if (!callData.method || typeof callData.method !== 'string') {
+      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract method is required');
+    }
+    if (callData.method.length > 200) {
+      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, 'Contract method name too long (max 200 characters)');
+    }
+    const amount = callData.amount != null
+      ? this.parseAmount(callData.amount, 'Contract call amount')
+      : OctAmount.ZERO;
+    const { params } = encodeContractParams(callData.params);
+    return { params, amount };
+  }
+
+  private pruneTrackers(): void {
+    for (const tracker of this.trackers) {
+      if (tracker.isSettled) this.trackers.delete(tracker);
+    }
+  }
+
+  private assertValidTransaction(txData: TransactionData, prefix = ''): void {
+    if (!txData || !isValidAddress(txData.to)) {
+      throw new ZeroXIOWalletError(ErrorCode.INVALID_ADDRESS, `${prefix}Invalid recipient address`);
     }
+    if (!isValidAmount(txData.amount)) {
+      throw new ZeroXIOWalletError(ErrorCode.TRANSACTION_FAILED, `${prefix}Invalid transaction amount`);
+    }
+    if (txData.message && txData.message.length > 1000) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.TRANSACTION_FAILED,
+        `${prefix}Transaction message too long (max 1,000 characters)`
+      );
+    }
+  }
+
+  /**
+   * Parse an amount exactly into micro-OCT. Numbers such as 0.1 + 0.2 are accepted
+   * as 0.3; anything with sub-micro precision is rejected rather than silently rounded.
+   */
+  private parseAmount(amount: OctAmountInput, label: string): OctAmount {
+    try {
+      return OctAmount.from(amount);
+    } catch (error) {
+      throw new ZeroXIOWalletError(
+        ErrorCode.INVALID_AMOUNT,
+        `${label}: ${error instanceof Error ? error.message : 'invalid amount'}`
+      );
+    }
+  }
+
+  /**
+   * Amounts cross the bridge as canonical OCT decimal strings — never floats or OctAmount instances.
+   */
+  private toWireTransaction(txData: TransactionData): TransactionData {
+    return { ...txData, amount: OctAmount.from(txData.amount).toString() };
+  }
+
+  private balancesEqual(a: Balance, b: Balance): boolean {
+    if (a.exact && b.exact) {
+      return a.exact.public.eq(b.exact.public) && a.exact.private.eq(b.exact.private);
+    }
+    return a.total === b.total && a.public === b.public && a.private === b.private;
   }
 
   cleanup(): void {
+    for (const tracker of this.trackers) {
+      tracker.stop();
+    }
+    this.trackers.clear();
     this.communicator.cleanup();
     this.removeAllListeners();
     this.connectionInfo = { isConnected: false };
+    this.isLocked = false;
+    this.stateStore.reset();
     this.isInitialized = false;
     this._initPromise = null;
     ++this._sessionVersion;